@@ -0,0 +1,179 @@
+/**
+ * Human-in-the-loop approval for payments.
+ *
+ * `L402Client` asks an `ApprovalProvider` before calling the wallet when a
+ * payment crosses the configured threshold or goes to a new domain (see
+ * `ApprovalOptions`). Anything but an explicit approval within the timeout
+ * is a denial.
+ */
+
+import { randomBytes } from "node:crypto";
+import { readFileSync, rmSync } from "node:fs";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { createInterface } from "node:readline";
+import { writeJsonFileAtomic } from "./file-utils.js";
+import type { L402Challenge, MppChallenge } from "./types.js";
+
+/** Why a payment needs approval. */
+export type ApprovalReason = "above_threshold" | "new_domain";
+
+/** A payment waiting for approval. */
+export interface ApprovalRequest {
+  domain: string;
+  path: string;
+  /** Invoice amount in satoshis. */
+  amountSats: number;
+  /** The parsed 402 challenge that would be paid. */
+  challenge: L402Challenge | MppChallenge;
+  reasons: ApprovalReason[];
+}
+
+/** Decides whether a payment may go ahead. */
+export interface ApprovalProvider {
+  /**
+   * Resolve `true` to approve, `false` to deny. `signal` aborts when the
+   * client stops waiting (timeout); clean up and resolve promptly. A
+   * rejection counts as a denial.
+   */
+  requestApproval(
+    request: ApprovalRequest,
+    signal: AbortSignal,
+  ): Promise<boolean>;
+}
+
+/** One-line human description of a request, for prompts and queue files. */
+function describeRequest(request: ApprovalRequest): string {
+  const reasons = request.reasons
+    .map((r) =>
+      r === "new_domain" ? "first payment to this domain" : "above threshold",
+    )
+    .join(", ");
+  return `Pay ${request.amountSats} sats to ${request.domain}${request.path} (${reasons})?`;
+}
+
+/** Options for `ConsoleApprovalProvider`. */
+export interface ConsoleApprovalOptions {
+  /** Where answers are read from (default: `process.stdin`). */
+  input?: NodeJS.ReadableStream;
+  /** Where prompts are written (default: `process.stdout`). */
+  output?: NodeJS.WritableStream;
+}
+
+/**
+ * Asks on the terminal: `Pay 500 sats to api.example.com/data (...)? [y/N]`.
+ * Only `y` or `yes` approves.
+ */
+export class ConsoleApprovalProvider implements ApprovalProvider {
+  private _input: NodeJS.ReadableStream;
+  private _output: NodeJS.WritableStream;
+
+  constructor(options: ConsoleApprovalOptions = {}) {
+    this._input = options.input ?? process.stdin;
+    this._output = options.output ?? process.stdout;
+  }
+
+  requestApproval(
+    request: ApprovalRequest,
+    signal: AbortSignal,
+  ): Promise<boolean> {
+    return new Promise((resolve) => {
+      const rl = createInterface({
+        input: this._input,
+        output: this._output,
+        terminal: false,
+      });
+      const finish = (approved: boolean): void => {
+        signal.removeEventListener("abort", onAbort);
+        rl.close();
+        resolve(approved);
+      };
+      const onAbort = (): void => {
+        this._output.write("\n(no answer, payment denied)\n");
+        finish(false);
+      };
+      if (signal.aborted) return finish(false);
+      signal.addEventListener("abort", onAbort);
+      rl.question(`${describeRequest(request)} [y/N] `, (answer) => {
+        finish(/^y(es)?$/i.test(answer.trim()));
+      });
+    });
+  }
+}
+
+/** Default directory of the file approval queue. */
+export const DEFAULT_APPROVALS_DIR = join(
+  homedir(),
+  ".lightning-enable",
+  "approvals",
+);
+
+/** Options for `FileApprovalProvider`. */
+export interface FileApprovalOptions {
+  /** How often to look for a decision, in milliseconds (default: 1000). */
+  pollIntervalMs?: number;
+}
+
+/**
+ * File-queue approvals for headless runs. Each request is written to
+ * `<dir>/<id>.request.json`; an operator or another process approves it by
+ * writing `<dir>/<id>.decision.json` containing `{"approved": true}` (any
+ * other JSON denies; a file that does not parse yet is read again on the next
+ * poll). Both files are removed once the request is settled or the client
+ * stops waiting.
+ */
+export class FileApprovalProvider implements ApprovalProvider {
+  readonly dir: string;
+  private _pollIntervalMs: number;
+
+  constructor(
+    dir: string = DEFAULT_APPROVALS_DIR,
+    options: FileApprovalOptions = {},
+  ) {
+    this.dir = dir;
+    this._pollIntervalMs = options.pollIntervalMs ?? 1_000;
+  }
+
+  requestApproval(
+    request: ApprovalRequest,
+    signal: AbortSignal,
+  ): Promise<boolean> {
+    const id = `${Date.now()}-${randomBytes(4).toString("hex")}`;
+    const requestPath = join(this.dir, `${id}.request.json`);
+    const decisionPath = join(this.dir, `${id}.decision.json`);
+
+    writeJsonFileAtomic(requestPath, {
+      id,
+      summary: describeRequest(request),
+      ...request,
+      requestedAt: new Date().toISOString(),
+    });
+
+    return new Promise((resolve) => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const finish = (approved: boolean): void => {
+        clearTimeout(timer);
+        signal.removeEventListener("abort", onAbort);
+        rmSync(requestPath, { force: true });
+        rmSync(decisionPath, { force: true });
+        resolve(approved);
+      };
+      const onAbort = (): void => finish(false);
+      const poll = (): void => {
+        let decision: unknown;
+        try {
+          decision = JSON.parse(readFileSync(decisionPath, "utf-8"));
+        } catch {
+          // No decision yet, or one still being written.
+          timer = setTimeout(poll, this._pollIntervalMs);
+          return;
+        }
+        finish((decision as { approved?: unknown })?.approved === true);
+      };
+
+      if (signal.aborted) return finish(false);
+      signal.addEventListener("abort", onAbort);
+      poll();
+    });
+  }
+}
@@ -0,0 +1,278 @@
+/**
+ * axios integration: an adapter that sends axios requests through
+ * `L402Client.fetch`, so they pay 402 challenges like fetch calls do.
+ *
+ * Typed structurally; this package does not depend on axios.
+ */
+
+import { Readable } from "node:stream";
+import type { ReadableStream as NodeReadableStream } from "node:stream/web";
+import { L402Client } from "./client.js";
+import type { L402Options } from "./types.js";
+
+/** The parts of an axios request config the adapter reads. */
+export interface AxiosRequestConfigLike {
+  url?: string;
+  baseURL?: string;
+  method?: string;
+  /** `AxiosHeaders` or a plain object. */
+  headers?: unknown;
+  params?: unknown;
+  paramsSerializer?:
+    | ((params: Record<string, unknown>) => string)
+    | { serialize?: (params: Record<string, unknown>) => string };
+  /** The body, after axios's `transformRequest`. */
+  data?: unknown;
+  responseType?: string;
+  /** Milliseconds; 0 for none. */
+  timeout?: number;
+  timeoutErrorMessage?: string;
+  /** `clarifyTimeoutError` makes timeouts reject with `ETIMEDOUT`. */
+  transitional?: { clarifyTimeoutError?: boolean };
+  /** An `AbortSignal`, or any object shaped like one (axios's `GenericAbortSignal`). */
+  signal?: AbortSignal | GenericAbortSignalLike | null;
+  validateStatus?: ((status: number) => boolean) | null;
+}
+
+/** A non-native abort signal, e.g. from an `AbortController` polyfill. */
+export interface GenericAbortSignalLike {
+  readonly aborted: boolean;
+  readonly reason?: unknown;
+  addEventListener?: (type: "abort", listener: () => void) => void;
+  removeEventListener?: (type: "abort", listener: () => void) => void;
+}
+
+/** The response an axios adapter resolves with. */
+export interface AxiosResponseLike<
+  C extends AxiosRequestConfigLike = AxiosRequestConfigLike,
+> {
+  data: unknown;
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  config: C;
+  request: null;
+}
+
+/**
+ * An axios adapter: `axios.create({ adapter })`. Generic so it is assignable
+ * to axios's own `AxiosAdapter` type.
+ */
+export type L402AxiosAdapter = <C extends AxiosRequestConfigLike>(
+  config: C,
+) => Promise<AxiosResponseLike<C>>;
+
+/**
+ * An axios adapter backed by `client` (or a new `L402Client` built from these
+ * options). Requests run through `client.fetch`: cached credentials are sent,
+ * 402 challenges are parsed, budgeted, paid and cached, and the request is
+ * replayed — against the same `BudgetController`, `CredentialCache` and
+ * `SpendingLog` as the client's fetch calls. Requests go out through the
+ * client's `fetch` option (default `globalThis.fetch`), not axios's own
+ * transport.
+ *
+ * Statuses `validateStatus` rejects, and an elapsed `timeout`, reject with
+ * axios-shaped errors (`isAxiosError`, `code`, `config`); payment errors
+ * (e.g. `BudgetExceededError`) reject as they are.
+ *
+ * @example
+ *   const api = axios.create({ adapter: createL402AxiosAdapter(client) });
+ */
+export function createL402AxiosAdapter(
+  client: L402Client | L402Options = {},
+): L402AxiosAdapter {
+  const l402 = client instanceof L402Client ? client : new L402Client(client);
+
+  return async (config) => {
+    const { signal, done, timedOut } = requestSignal(config);
+    let result: AxiosResponseLike<typeof config>;
+    try {
+      const response = await l402.fetch(requestUrl(config), {
+        method: (config.method ?? "get").toUpperCase(),
+        headers: requestHeaders(config.headers),
+        body: config.data == null ? undefined : (config.data as RequestInit["body"]),
+        signal,
+      });
+      result = {
+        data: await responseData(response, config.responseType),
+        status: response.status,
+        statusText: response.statusText,
+        headers: Object.fromEntries(response.headers),
+        config,
+        request: null,
+      };
+    } catch (e) {
+      if (timedOut()) throw timeoutError(config);
+      throw e;
+    } finally {
+      done();
+    }
+    const validate = config.validateStatus;
+    if (!validate || validate(result.status)) return result;
+    throw statusError(result);
+  };
+}
+
+/** `baseURL` + `url` + `params`, as axios builds it. */
+function requestUrl(config: AxiosRequestConfigLike): string {
+  let url = config.url ?? "";
+  if (config.baseURL && !/^[a-z][a-z\d+\-.]*:\/\//i.test(url)) {
+    url = url
+      ? `${config.baseURL.replace(/\/+$/, "")}/${url.replace(/^\/+/, "")}`
+      : config.baseURL;
+  }
+
+  const params = config.params;
+  if (params == null) return url;
+  let query: string;
+  if (params instanceof URLSearchParams) {
+    query = params.toString();
+  } else {
+    const serializer = config.paramsSerializer;
+    const serialize =
+      typeof serializer === "function" ? serializer : serializer?.serialize;
+    query = serialize
+      ? serialize(params as Record<string, unknown>)
+      : serializeParams(params as Record<string, unknown>);
+  }
+  if (!query) return url;
+  const hash = url.indexOf("#");
+  if (hash !== -1) url = url.slice(0, hash);
+  return `${url}${url.includes("?") ? "&" : "?"}${query}`;
+}
+
+/** axios's default params encoding: `key[]=` for arrays, ISO dates, JSON objects. */
+function serializeParams(params: Record<string, unknown>): string {
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value == null) continue;
+    const isArray = Array.isArray(value);
+    for (const item of isArray ? value : [value]) {
+      if (item == null) continue;
+      const text =
+        item instanceof Date
+          ? item.toISOString()
+          : typeof item === "object"
+            ? JSON.stringify(item)
+            : String(item);
+      search.append(isArray ? `${key}[]` : key, text);
+    }
+  }
+  return search.toString();
+}
+
+/** axios headers (an `AxiosHeaders` or a plain object) as fetch headers. */
+function requestHeaders(headers: unknown): Headers {
+  const result = new Headers();
+  if (headers == null || typeof headers !== "object") return result;
+  const toJSON = (headers as { toJSON?: () => unknown }).toJSON;
+  const plain = (
+    typeof toJSON === "function" ? toJSON.call(headers) : headers
+  ) as Record<string, unknown>;
+  for (const [name, value] of Object.entries(plain)) {
+    if (value == null || value === false) continue;
+    result.set(name, Array.isArray(value) ? value.join(", ") : String(value));
+  }
+  return result;
+}
+
+/**
+ * The signal to send with: `config.signal` (native or not) and
+ * `config.timeout`, combined. `timedOut()` tells a timeout from a cancel.
+ */
+function requestSignal(config: AxiosRequestConfigLike): {
+  signal: AbortSignal | undefined;
+  done: () => void;
+  timedOut: () => boolean;
+} {
+  const parent = config.signal ?? null;
+  if (!config.timeout && (parent === null || parent instanceof AbortSignal)) {
+    return { signal: parent ?? undefined, done: () => {}, timedOut: () => false };
+  }
+
+  const controller = new AbortController();
+  let expired = false;
+  const onAbort = (): void => controller.abort(parent?.reason);
+  const timer = config.timeout
+    ? setTimeout(() => {
+        expired = true;
+        controller.abort(
+          new DOMException(
+            `timeout of ${config.timeout}ms exceeded`,
+            "TimeoutError",
+          ),
+        );
+      }, config.timeout)
+    : undefined;
+  if (parent?.aborted) onAbort();
+  parent?.addEventListener?.("abort", onAbort);
+  return {
+    signal: controller.signal,
+    done: () => {
+      clearTimeout(timer);
+      parent?.removeEventListener?.("abort", onAbort);
+    },
+    timedOut: () => expired,
+  };
+}
+
+/**
+ * The response body in the form axios expects for `responseType`. JSON is
+ * left as text: axios's `transformResponse` parses it. Streams are Node
+ * `Readable`s, as axios's own http adapter returns, not WHATWG streams.
+ */
+async function responseData(
+  response: Response,
+  responseType: string | undefined,
+): Promise<unknown> {
+  switch (responseType) {
+    case "arraybuffer":
+      return response.arrayBuffer();
+    case "blob":
+      return response.blob();
+    case "stream":
+      return response.body
+        ? Readable.fromWeb(response.body as NodeReadableStream<Uint8Array>)
+        : Readable.from([]);
+    case "formdata":
+      return response.formData();
+    default:
+      return response.text();
+  }
+}
+
+/** The error axios's `settle` rejects with for a status `validateStatus` refuses. */
+function statusError(response: AxiosResponseLike<AxiosRequestConfigLike>): Error {
+  return Object.assign(
+    axiosError(
+      `Request failed with status code ${response.status}`,
+      response.status >= 500 ? "ERR_BAD_RESPONSE" : "ERR_BAD_REQUEST",
+      response.config,
+    ),
+    { status: response.status, response },
+  );
+}
+
+/** The error axios's http adapter rejects with when `timeout` elapses. */
+function timeoutError(config: AxiosRequestConfigLike): Error {
+  return axiosError(
+    config.timeoutErrorMessage ?? `timeout of ${config.timeout}ms exceeded`,
+    config.transitional?.clarifyTimeoutError ? "ETIMEDOUT" : "ECONNABORTED",
+    config,
+  );
+}
+
+/** An error shaped like axios's `AxiosError`. */
+function axiosError(
+  message: string,
+  code: string,
+  config: AxiosRequestConfigLike,
+): Error {
+  return Object.assign(new Error(message), {
+    name: "AxiosError",
+    isAxiosError: true,
+    code,
+    config,
+    request: null,
+  });
+}
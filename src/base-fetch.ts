@@ -0,0 +1,29 @@
+/**
+ * The fetch to send with when none is configured.
+ *
+ * Usually `globalThis.fetch`. While `installGlobalFetch()` has replaced it
+ * with a paying fetch, the client and wallets must not send through that
+ * (it would call back into the client), so they use the fetch it replaced.
+ */
+
+import type { FetchFunction } from "./types.js";
+
+/** Fetches installed by `installGlobalFetch`, mapped to the one each replaced. */
+const replaced = new WeakMap<FetchFunction, FetchFunction>();
+
+/** Record that `installed` took the place of `previous` as the global fetch. */
+export function registerInstalledFetch(
+  installed: FetchFunction,
+  previous: FetchFunction,
+): void {
+  replaced.set(installed, previous);
+}
+
+/** `globalThis.fetch` as it is now, minus any installed paying fetches. */
+export function baseFetch(): FetchFunction {
+  let fetch: FetchFunction = globalThis.fetch;
+  for (let previous = replaced.get(fetch); previous; previous = replaced.get(fetch)) {
+    fetch = previous;
+  }
+  return fetch;
+}
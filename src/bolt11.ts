@@ -1,8 +1,10 @@
 /**
- * Pure TypeScript BOLT11 invoice amount extraction.
+ * Pure TypeScript BOLT11 invoice decoding.
  *
- * Parses the human-readable part of a BOLT11 invoice to extract the amount
- * in satoshis. No external Lightning libraries required.
+ * `decodeBolt11` verifies the bech32 checksum and parses every tagged field
+ * the client relies on (payment hash, expiry, payee, ...). `extractAmountSats`
+ * reads only the human-readable part to get the amount in satoshis. No
+ * external Lightning libraries required.
  *
  * BOLT11 format: ln{bc|tb|...}{amount}{multiplier}1{data}
  * Multipliers: m (milli), u (micro), n (nano), p (pico)
@@ -10,6 +12,9 @@
  * Uses BigInt internally to avoid floating-point precision issues.
  */
 
+import { createHash } from "node:crypto";
+import { InvoiceParseError } from "./errors.js";
+
 // Match the WHOLE human-readable part: ln + network + optional(amount +
 // multiplier). Terminated with "$" (not a trailing "1") so it only ever matches
 // a complete HRP, never a prefix that stops at an earlier "1". The HRP is
@@ -86,6 +91,9 @@ export function classifyMissingAmount(bolt11: string): MissingAmountReason {
 /**
  * Extract the amount in satoshis from a BOLT11 invoice string.
  *
+ * Reads only the human-readable part and does not verify the checksum — use
+ * `decodeBolt11` when the rest of the invoice matters.
+ *
  * @param bolt11 A BOLT11-encoded Lightning invoice (e.g., "lnbc10u1p...").
  * @returns Amount in satoshis as a number, or null if the amount cannot be
  *   determined — either none is encoded or the invoice cannot be parsed. Use
@@ -108,18 +116,352 @@ export function extractAmountSats(bolt11: string): number | null {
     return null;
   }
 
+  return Number(hrpAmountMsat(amountStr, match.groups["multiplier"]) / 1_000n);
+}
+
+/**
+ * Amount encoded in the HRP, in millisatoshis.
+ *
+ * sats = amount * SATS_PER_BTC * num / denom, so msat is the same with an
+ * extra factor of 1000. With no multiplier the amount is in whole BTC.
+ */
+function hrpAmountMsat(amountStr: string, multiplier: string | undefined): bigint {
+  const msatPerBtc = SATS_PER_BTC * 1_000n;
   const amount = BigInt(amountStr);
+  if (!multiplier) return amount * msatPerBtc;
+  const m = MULTIPLIERS[multiplier.toLowerCase()];
+  return (amount * msatPerBtc * m.num) / m.denom;
+}
+
+// ── Full decoding (bech32 data part + tagged fields) ──
+
+/** One hop of a private route hint (`r` field). */
+export interface RouteHintHop {
+  /** Node id of the hop's source, 33-byte compressed pubkey as hex. */
+  pubkey: string;
+  /** Short channel id as hex (8 bytes). */
+  shortChannelId: string;
+  feeBaseMsat: number;
+  feeProportionalMillionths: number;
+  cltvExpiryDelta: number;
+}
+
+/** A BOLT11 invoice with its checksum verified and its tagged fields parsed. */
+export interface DecodedInvoice {
+  /** The invoice string as given (trimmed). */
+  paymentRequest: string;
+  /** Network prefix from the HRP: "bc", "tb", "bcrt", "tbs", ... */
+  network: string;
+  /** Encoded amount in millisatoshis, or null for an amountless invoice. */
+  amountMsat: number | null;
+  /** Encoded amount in whole satoshis (truncated), or null if amountless. */
+  amountSats: number | null;
+  /** Creation time, seconds since the Unix epoch. */
+  timestamp: number;
+  /** Seconds after `timestamp` the invoice stays payable (default 3600). */
+  expiry: number;
+  /** `timestamp + expiry`, seconds since the Unix epoch. */
+  expiresAt: number;
+  /** SHA-256 of the payment preimage, 32 bytes as hex. */
+  paymentHash: string;
+  /** Payment secret (`s` field) as hex, or null if absent. */
+  paymentSecret: string | null;
+  /** Short UTF-8 description (`d` field), or null if absent. */
+  description: string | null;
+  /** SHA-256 of a longer description (`h` field) as hex, or null if absent. */
+  descriptionHash: string | null;
+  /**
+   * Payee node id from the explicit `n` field, or null if absent. Recovering
+   * it from the signature instead would need secp256k1, which is only an
+   * optional peer dependency; `signature` and `recoveryFlag` are exposed for
+   * callers that want to do so.
+   */
+  payeeNodeKey: string | null;
+  /** `min_final_cltv_expiry_delta` (`c` field, default 18). */
+  minFinalCltvExpiry: number;
+  /** Private route hints, one array of hops per `r` field. */
+  routeHints: RouteHintHop[][];
+  /** Indices of the feature bits set in the `9` field, ascending. */
+  features: number[];
+  /** Compact 64-byte signature as hex. */
+  signature: string;
+  /** Signature recovery id (0-3). */
+  recoveryFlag: number;
+}
+
+const BECH32_CHARSET = "qpzry9x8gf2tvdw0s3jn54khce6mua7l";
+const BECH32_GENERATOR = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+
+const DEFAULT_EXPIRY_SECONDS = 3600;
+const DEFAULT_MIN_FINAL_CLTV_EXPIRY = 18;
+
+// Field layout of the data part, in 5-bit words.
+const TIMESTAMP_WORDS = 7;
+const SIGNATURE_WORDS = 104;
+const CHECKSUM_WORDS = 6;
+
+// Tagged field types (the bech32 character's value).
+const TAG_PAYMENT_HASH = 1; // p
+const TAG_ROUTE_HINT = 3; // r
+const TAG_FEATURES = 5; // 9
+const TAG_EXPIRY = 6; // x
+const TAG_DESCRIPTION = 13; // d
+const TAG_PAYMENT_SECRET = 16; // s
+const TAG_PAYEE = 19; // n
+const TAG_DESCRIPTION_HASH = 23; // h
+const TAG_MIN_FINAL_CLTV = 24; // c
+
+function bech32Polymod(values: number[]): number {
+  let chk = 1;
+  for (const v of values) {
+    const top = chk >>> 25;
+    chk = ((chk & 0x1ffffff) << 5) ^ v;
+    for (let i = 0; i < 5; i++) {
+      if ((top >>> i) & 1) chk ^= BECH32_GENERATOR[i];
+    }
+  }
+  return chk >>> 0;
+}
+
+function hrpExpand(hrp: string): number[] {
+  const out: number[] = [];
+  for (let i = 0; i < hrp.length; i++) out.push(hrp.charCodeAt(i) >> 5);
+  out.push(0);
+  for (let i = 0; i < hrp.length; i++) out.push(hrp.charCodeAt(i) & 31);
+  return out;
+}
+
+/** Big-endian integer from 5-bit words. */
+function wordsToInt(words: number[]): number {
+  return words.reduce((acc, w) => acc * 32 + w, 0);
+}
+
+/** Regroup 5-bit words into bytes, dropping the trailing partial byte. */
+function wordsToBytes(words: number[]): Uint8Array {
+  const bytes: number[] = [];
+  let acc = 0;
+  let bits = 0;
+  for (const w of words) {
+    acc = (acc << 5) | w;
+    bits += 5;
+    while (bits >= 8) {
+      bits -= 8;
+      bytes.push((acc >> bits) & 0xff);
+    }
+    acc &= (1 << bits) - 1;
+  }
+  return new Uint8Array(bytes);
+}
+
+function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes)
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+function readUint(bytes: Uint8Array, offset: number, length: number): number {
+  let n = 0;
+  for (let i = 0; i < length; i++) n = n * 256 + bytes[offset + i];
+  return n;
+}
+
+function parseRouteHint(words: number[]): RouteHintHop[] {
+  const bytes = wordsToBytes(words);
+  const hops: RouteHintHop[] = [];
+  // Each hop is pubkey(33) + short_channel_id(8) + fee_base_msat(4) +
+  // fee_proportional_millionths(4) + cltv_expiry_delta(2) = 51 bytes.
+  for (let off = 0; off + 51 <= bytes.length; off += 51) {
+    hops.push({
+      pubkey: bytesToHex(bytes.slice(off, off + 33)),
+      shortChannelId: bytesToHex(bytes.slice(off + 33, off + 41)),
+      feeBaseMsat: readUint(bytes, off + 41, 4),
+      feeProportionalMillionths: readUint(bytes, off + 45, 4),
+      cltvExpiryDelta: readUint(bytes, off + 49, 2),
+    });
+  }
+  return hops;
+}
+
+function parseFeatures(words: number[]): number[] {
+  const bits: number[] = [];
+  // Bit 0 is the least significant bit of the LAST word.
+  for (let i = 0; i < words.length; i++) {
+    const word = words[words.length - 1 - i];
+    for (let b = 0; b < 5; b++) {
+      if ((word >> b) & 1) bits.push(i * 5 + b);
+    }
+  }
+  return bits;
+}
+
+/**
+ * Decode a BOLT11 invoice, verifying its bech32 checksum.
+ *
+ * Every tagged field `L402Client` builds safety checks on is parsed. Per the
+ * spec, `p`/`s`/`h`/`n` fields of the wrong length and unknown field types are
+ * skipped rather than rejected. The signature is returned but NOT verified:
+ * that needs secp256k1, which this module does not depend on. A checksum-valid
+ * invoice with a forged signature is still rejected by the paying wallet.
+ *
+ * @param bolt11 A BOLT11-encoded Lightning invoice.
+ * @throws {InvoiceParseError} If the invoice is malformed, its checksum does
+ *   not match, or it carries no payment hash.
+ */
+export function decodeBolt11(bolt11: string): DecodedInvoice {
+  const paymentRequest = (bolt11 ?? "").trim();
+  if (!paymentRequest) {
+    throw new InvoiceParseError(bolt11 ?? "", "empty invoice");
+  }
+  // bech32 forbids mixed case; either all-lower or all-upper is valid.
+  if (
+    paymentRequest !== paymentRequest.toLowerCase() &&
+    paymentRequest !== paymentRequest.toUpperCase()
+  ) {
+    throw new InvoiceParseError(paymentRequest, "mixed-case invoice");
+  }
+
+  const invoice = paymentRequest.toLowerCase();
+  const hrp = humanReadablePart(invoice);
+  if (hrp === null) {
+    throw new InvoiceParseError(paymentRequest, "missing bech32 separator");
+  }
+  const match = hrp.match(BOLT11_HRP_RE);
+  if (!match?.groups) {
+    throw new InvoiceParseError(paymentRequest, "invalid human-readable part");
+  }
+
+  const words: number[] = [];
+  for (const ch of invoice.slice(hrp.length + 1)) {
+    const w = BECH32_CHARSET.indexOf(ch);
+    if (w < 0) {
+      throw new InvoiceParseError(paymentRequest, `invalid character "${ch}"`);
+    }
+    words.push(w);
+  }
+  if (words.length < TIMESTAMP_WORDS + SIGNATURE_WORDS + CHECKSUM_WORDS) {
+    throw new InvoiceParseError(paymentRequest, "data part too short");
+  }
+  if (bech32Polymod([...hrpExpand(hrp), ...words]) !== 1) {
+    throw new InvoiceParseError(paymentRequest, "invalid checksum");
+  }
+
+  const amountStr = match.groups["amount"];
   const multiplier = match.groups["multiplier"];
+  if (multiplier?.toLowerCase() === "p" && amountStr && !amountStr.endsWith("0")) {
+    // Sub-millisatoshi amounts are not payable (BOLT11: MUST fail).
+    throw new InvoiceParseError(paymentRequest, "pico amount is not a whole msat");
+  }
+  const amountMsat =
+    amountStr === undefined ? null : hrpAmountMsat(amountStr, multiplier);
+
+  const data = words.slice(0, words.length - CHECKSUM_WORDS);
+  const sigWords = data.slice(data.length - SIGNATURE_WORDS);
+  const sigBytes = wordsToBytes(sigWords);
+  const timestamp = wordsToInt(data.slice(0, TIMESTAMP_WORDS));
+
+  let paymentHash: string | null = null;
+  let paymentSecret: string | null = null;
+  let description: string | null = null;
+  let descriptionHash: string | null = null;
+  let payeeNodeKey: string | null = null;
+  let expiry = DEFAULT_EXPIRY_SECONDS;
+  let minFinalCltvExpiry = DEFAULT_MIN_FINAL_CLTV_EXPIRY;
+  const routeHints: RouteHintHop[][] = [];
+  let features: number[] = [];
+
+  const tagged = data.slice(TIMESTAMP_WORDS, data.length - SIGNATURE_WORDS);
+  let pos = 0;
+  while (pos < tagged.length) {
+    if (pos + 3 > tagged.length) {
+      throw new InvoiceParseError(paymentRequest, "truncated tagged field");
+    }
+    const type = tagged[pos];
+    const len = tagged[pos + 1] * 32 + tagged[pos + 2];
+    const field = tagged.slice(pos + 3, pos + 3 + len);
+    if (field.length !== len) {
+      throw new InvoiceParseError(paymentRequest, "truncated tagged field");
+    }
+    pos += 3 + len;
 
-  let sats: bigint;
-  if (multiplier) {
-    const m = MULTIPLIERS[multiplier.toLowerCase()];
-    // sats = amount * SATS_PER_BTC * num / denom
-    sats = (amount * SATS_PER_BTC * m.num) / m.denom;
-  } else {
-    // No multiplier means amount is in BTC
-    sats = amount * SATS_PER_BTC;
+    switch (type) {
+      case TAG_PAYMENT_HASH:
+        // First valid `p` wins; the spec allows exactly one.
+        if (len === 52 && paymentHash === null) {
+          paymentHash = bytesToHex(wordsToBytes(field));
+        }
+        break;
+      case TAG_PAYMENT_SECRET:
+        if (len === 52) paymentSecret = bytesToHex(wordsToBytes(field));
+        break;
+      case TAG_DESCRIPTION_HASH:
+        if (len === 52) descriptionHash = bytesToHex(wordsToBytes(field));
+        break;
+      case TAG_PAYEE:
+        if (len === 53) payeeNodeKey = bytesToHex(wordsToBytes(field));
+        break;
+      case TAG_DESCRIPTION:
+        description = new TextDecoder().decode(wordsToBytes(field));
+        break;
+      case TAG_EXPIRY:
+        expiry = wordsToInt(field);
+        break;
+      case TAG_MIN_FINAL_CLTV:
+        minFinalCltvExpiry = wordsToInt(field);
+        break;
+      case TAG_ROUTE_HINT:
+        routeHints.push(parseRouteHint(field));
+        break;
+      case TAG_FEATURES:
+        features = parseFeatures(field);
+        break;
+      default:
+        // Unknown or unused (fallback address, metadata, ...) — skip.
+        break;
+    }
   }
 
-  return Number(sats);
+  if (paymentHash === null) {
+    throw new InvoiceParseError(paymentRequest, "missing payment hash");
+  }
+
+  return {
+    paymentRequest,
+    network: match.groups["network"],
+    amountMsat: amountMsat === null ? null : Number(amountMsat),
+    amountSats: amountMsat === null ? null : Number(amountMsat / 1_000n),
+    timestamp,
+    expiry,
+    expiresAt: timestamp + expiry,
+    paymentHash,
+    paymentSecret,
+    description,
+    descriptionHash,
+    payeeNodeKey,
+    minFinalCltvExpiry,
+    routeHints,
+    features,
+    signature: bytesToHex(sigBytes.slice(0, 64)),
+    recoveryFlag: sigBytes[64],
+  };
+}
+
+const PREIMAGE_RE = /^[0-9a-fA-F]{64}$/;
+
+/**
+ * Whether `preimage` unlocks an invoice with the given payment hash, i.e.
+ * `sha256(preimage) == paymentHash`. A preimage that is not exactly 32 bytes
+ * of hex never matches.
+ *
+ * @param preimage Hex preimage as returned by `Wallet.payInvoice`.
+ * @param paymentHash Hex payment hash, e.g. `DecodedInvoice.paymentHash`.
+ */
+export function preimageMatchesPaymentHash(
+  preimage: string,
+  paymentHash: string,
+): boolean {
+  if (!PREIMAGE_RE.test(preimage)) return false;
+  const digest = createHash("sha256")
+    .update(Buffer.from(preimage, "hex"))
+    .digest("hex");
+  return digest === paymentHash.toLowerCase();
 }
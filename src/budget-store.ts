@@ -0,0 +1,122 @@
+/**
+ * Persistence backends for BudgetController.
+ *
+ * The controller's hourly and daily limits are sliding windows over recorded
+ * payments. Keeping those payments in a shared store makes the limits hold
+ * across restarts and across every process pointed at the same store.
+ */
+
+import { homedir } from "node:os";
+import { join } from "node:path";
+import {
+  readJsonFile,
+  withFileLock,
+  writeJsonFileAtomic,
+} from "./file-utils.js";
+import { StoreReadError } from "./errors.js";
+
+/** A payment counted against the budget windows. */
+export interface BudgetPayment {
+  /** When the payment was recorded (ms since epoch). */
+  timestamp: number;
+  /** Amount in satoshis. */
+  amount: number;
+  /** Lower-cased hostname paid, when known; counts against its `domainLimits`. */
+  domain?: string;
+}
+
+/** Longest window any limit looks at; older payments can be discarded. */
+const RETENTION_MS = 86_400_000;
+
+/** Where `BudgetController` keeps the payments its limits are computed from. */
+export interface BudgetStore {
+  /** Payments recorded at or after `since` (ms since epoch), oldest first. */
+  load(since: number): BudgetPayment[];
+  /** Record a payment. May complete asynchronously (e.g. behind a file lock). */
+  append(payment: BudgetPayment): void | Promise<void>;
+}
+
+/** Default store: per-process, forgotten on exit. */
+export class MemoryBudgetStore implements BudgetStore {
+  private _payments: BudgetPayment[] = [];
+
+  load(since: number): BudgetPayment[] {
+    this._prune(Date.now());
+    return this._payments.filter((p) => p.timestamp >= since);
+  }
+
+  append(payment: BudgetPayment): void {
+    this._payments.push(payment);
+  }
+
+  private _prune(now: number): void {
+    const cutoff = now - RETENTION_MS;
+    while (this._payments.length > 0 && this._payments[0].timestamp < cutoff) {
+      this._payments.shift();
+    }
+  }
+}
+
+/** Default location of the JSON budget store, next to config.json. */
+export const DEFAULT_BUDGET_PATH = join(
+  homedir(),
+  ".lightning-enable",
+  "budget.json",
+);
+
+/**
+ * JSON-file budget store (default `~/.lightning-enable/budget.json`).
+ *
+ * Every process using the same path shares one rolling window: appends take
+ * a lock file, re-read the file, add the payment, drop anything older than
+ * 24 hours and atomically replace the file. Reads see either the old or the
+ * new file, never a partial one. A file that exists but cannot be read or
+ * parsed throws `StoreReadError` from both, so payments are refused rather
+ * than checked against an empty history, and the file is never overwritten.
+ *
+ * Note that `BudgetController.check()` and `recordPayment()` are separate
+ * calls (the wallet is paid in between), so two processes checking at the
+ * same instant can both pass and together overshoot a limit by at most one
+ * payment each.
+ */
+export class FileBudgetStore implements BudgetStore {
+  readonly path: string;
+
+  constructor(path: string = DEFAULT_BUDGET_PATH) {
+    this.path = path;
+  }
+
+  load(since: number): BudgetPayment[] {
+    return this._read().filter((p) => p.timestamp >= since);
+  }
+
+  async append(payment: BudgetPayment): Promise<void> {
+    await withFileLock(this.path, () => {
+      const cutoff = Date.now() - RETENTION_MS;
+      const payments = this._read().filter((p) => p.timestamp >= cutoff);
+      payments.push(payment);
+      payments.sort((a, b) => a.timestamp - b.timestamp);
+      writeJsonFileAtomic(this.path, { version: 1, payments });
+    });
+  }
+
+  /**
+   * Read the file; a missing file reads as empty.
+   *
+   * @throws {StoreReadError} If it exists but is not a budget file.
+   */
+  private _read(): BudgetPayment[] {
+    const parsed = readJsonFile(this.path);
+    if (parsed === undefined) return [];
+    const payments = (parsed as { payments?: unknown })?.payments;
+    const valid =
+      Array.isArray(payments) &&
+      payments.every(
+        (p) => typeof p?.timestamp === "number" && typeof p?.amount === "number",
+      );
+    if (!valid) {
+      throw new StoreReadError(this.path, "not a valid budget file");
+    }
+    return payments as BudgetPayment[];
+  }
+}
@@ -1,116 +1,263 @@
 /**
  * Budget controls for L402 payments.
  *
- * Enforces per-request, hourly, and daily spending limits. Safety-first:
+ * Enforces per-request, hourly, and daily spending limits, globally and
+ * per domain. Safety-first:
  * budgets are enabled by default so users don't accidentally overspend.
  */
 
-import { BudgetExceededError, DomainNotAllowedError } from "./errors.js";
-import type { BudgetOptions } from "./types.js";
+import { domainToASCII } from "node:url";
+import {
+  MemoryBudgetStore,
+  type BudgetPayment,
+  type BudgetStore,
+} from "./budget-store.js";
+import {
+  BudgetExceededError,
+  DomainNotAllowedError,
+  PriceRuleError,
+} from "./errors.js";
+import type { BudgetOptions, DomainBudgetLimits, PriceRule } from "./types.js";
 
 export class BudgetController {
   readonly maxSatsPerRequest: number;
   readonly maxSatsPerHour: number;
   readonly maxSatsPerDay: number;
   readonly allowedDomains: Set<string> | null;
+  readonly deniedDomains: Set<string> | null;
+  /** Per-domain overrides, keyed by lower-cased hostname. */
+  readonly domainLimits: ReadonlyMap<string, DomainBudgetLimits>;
+  readonly pricePolicy: readonly PriceRule[];
 
-  private _payments: Array<{ timestamp: number; amount: number }> = [];
+  private _store: BudgetStore;
+  /** `allowedDomains` / `deniedDomains`, normalised: [as given, normalised]. */
+  private _allow: [string, string][] | null;
+  private _deny: [string, string][];
 
   constructor(options: BudgetOptions = {}) {
     this.maxSatsPerRequest = options.maxSatsPerRequest ?? 1_000;
     this.maxSatsPerHour = options.maxSatsPerHour ?? 10_000;
     this.maxSatsPerDay = options.maxSatsPerDay ?? 50_000;
     this.allowedDomains = options.allowedDomains ?? null;
+    this.deniedDomains = options.deniedDomains ?? null;
+    this._allow = this.allowedDomains && normalizePatterns(this.allowedDomains);
+    this._deny = normalizePatterns(this.deniedDomains ?? []);
+    this.domainLimits = new Map(
+      Object.entries(options.domainLimits ?? {}).map(([domain, limits]) => [
+        normalizeDomain(domain),
+        limits,
+      ]),
+    );
+    this.pricePolicy = options.pricePolicy ?? [];
+    this._store = options.store ?? new MemoryBudgetStore();
   }
 
   /**
-   * Verify a payment is within budget. Throws if not.
+   * Verify a payment is within budget. Throws if not. Records nothing —
+   * call `recordPayment` once the payment has actually been made.
    *
-   * @throws {DomainNotAllowedError} If domain is not in allowed_domains.
+   * A domain with `domainLimits` is held to its own per-request limit
+   * instead of the global one, and to its own hourly and daily caps on top
+   * of the global ones. With a `path` (and `method`), the first matching
+   * `pricePolicy` rule is applied too.
+   *
+   * @throws {DomainNotAllowedError} If domain matches `deniedDomains`, or
+   *   `allowedDomains` is set and it matches none of them.
+   * @throws {PriceRuleError} If a price policy rule refuses the payment.
    * @throws {BudgetExceededError} If any budget limit would be exceeded.
    */
-  check(amountSats: number, domain?: string): void {
-    if (this.allowedDomains !== null && domain) {
-      const lowerDomains = new Set(
-        [...this.allowedDomains].map((d) => d.toLowerCase()),
-      );
-      if (!lowerDomains.has(domain.toLowerCase())) {
+  check(
+    amountSats: number,
+    domain?: string,
+    path?: string,
+    method?: string,
+  ): void {
+    if (domain) {
+      // Deny rules win over allow rules.
+      const host = normalizeDomain(domain);
+      const denied = this._deny.find(([, p]) => domainMatches(p, host));
+      if (denied) throw new DomainNotAllowedError(domain, denied[0]);
+      if (this._allow && !this._allow.some(([, p]) => domainMatches(p, host))) {
         throw new DomainNotAllowedError(domain);
       }
     }
 
+    if (domain !== undefined && path !== undefined) {
+      const requestMethod = (method ?? "GET").toUpperCase();
+      const rule = this.pricePolicy.find((r) =>
+        ruleMatches(r, domain, path, requestMethod),
+      );
+      const overPrice = rule?.maxSats !== undefined && amountSats > rule.maxSats;
+      if (rule && (rule.neverPay || overPrice)) {
+        throw new PriceRuleError(rule, domain, path, requestMethod, amountSats);
+      }
+    }
+
+    const limitDomain = domain ? normalizeDomain(domain) : undefined;
+    const limits = limitDomain ? this.domainLimits.get(limitDomain) : undefined;
+
     // Per-request limit
-    if (amountSats > this.maxSatsPerRequest) {
+    const maxPerRequest = limits?.maxSatsPerRequest ?? this.maxSatsPerRequest;
+    if (amountSats > maxPerRequest) {
       throw new BudgetExceededError(
         "per_request",
-        this.maxSatsPerRequest,
+        maxPerRequest,
         0,
         amountSats,
+        limits?.maxSatsPerRequest !== undefined ? limitDomain : undefined,
       );
     }
 
     const now = Date.now();
-    this._prune(now);
-
-    // Hourly limit
+    const payments = this._store.load(now - 86_400_000);
     const hourAgo = now - 3_600_000;
-    const spentHour = this._payments
-      .filter((p) => p.timestamp >= hourAgo)
-      .reduce((sum, p) => sum + p.amount, 0);
-    if (spentHour + amountSats > this.maxSatsPerHour) {
-      throw new BudgetExceededError(
+
+    // Domain caps first: they are the narrower limits, so the more useful
+    // report when both would be exceeded.
+    if (limits) {
+      const domainPayments = payments.filter((p) => p.domain === limitDomain);
+      checkWindow(
         "per_hour",
-        this.maxSatsPerHour,
-        spentHour,
+        limits.maxSatsPerHour,
+        domainPayments.filter((p) => p.timestamp >= hourAgo),
         amountSats,
+        limitDomain,
       );
-    }
-
-    // Daily limit
-    const dayAgo = now - 86_400_000;
-    const spentDay = this._payments
-      .filter((p) => p.timestamp >= dayAgo)
-      .reduce((sum, p) => sum + p.amount, 0);
-    if (spentDay + amountSats > this.maxSatsPerDay) {
-      throw new BudgetExceededError(
+      checkWindow(
         "per_day",
-        this.maxSatsPerDay,
-        spentDay,
+        limits.maxSatsPerDay,
+        domainPayments,
         amountSats,
+        limitDomain,
       );
     }
+
+    // Hourly limit
+    checkWindow(
+      "per_hour",
+      this.maxSatsPerHour,
+      payments.filter((p) => p.timestamp >= hourAgo),
+      amountSats,
+    );
+
+    // Daily limit
+    checkWindow("per_day", this.maxSatsPerDay, payments, amountSats);
   }
 
-  /** Record a successful payment against the budget. */
-  recordPayment(amountSats: number): void {
-    this._payments.push({ timestamp: Date.now(), amount: amountSats });
+  /**
+   * Record a successful payment against the budget. Pass the domain so it
+   * also counts against that domain's `domainLimits`. Resolves once the
+   * store has it (at once for the in-memory store).
+   */
+  async recordPayment(amountSats: number, domain?: string): Promise<void> {
+    await this._store.append({
+      timestamp: Date.now(),
+      amount: amountSats,
+      ...(domain ? { domain: normalizeDomain(domain) } : {}),
+    });
   }
 
-  /** Total sats spent in the last hour. */
-  spentLastHour(): number {
-    const now = Date.now();
-    this._prune(now);
-    const hourAgo = now - 3_600_000;
-    return this._payments
-      .filter((p) => p.timestamp >= hourAgo)
-      .reduce((sum, p) => sum + p.amount, 0);
+  /** Total sats spent in the last hour, overall or to one domain. */
+  spentLastHour(domain?: string): number {
+    return this._spentSince(Date.now() - 3_600_000, domain);
   }
 
-  /** Total sats spent in the last 24 hours. */
-  spentLastDay(): number {
-    const now = Date.now();
-    this._prune(now);
-    const dayAgo = now - 86_400_000;
-    return this._payments
-      .filter((p) => p.timestamp >= dayAgo)
+  /** Total sats spent in the last 24 hours, overall or to one domain. */
+  spentLastDay(domain?: string): number {
+    return this._spentSince(Date.now() - 86_400_000, domain);
+  }
+
+  private _spentSince(since: number, domain?: string): number {
+    const host = domain ? normalizeDomain(domain) : undefined;
+    return this._store
+      .load(since)
+      .filter((p) => host === undefined || p.domain === host)
       .reduce((sum, p) => sum + p.amount, 0);
   }
+}
+
+/** Throw if `payments` plus `amountSats` would exceed `limitSats` (if set). */
+function checkWindow(
+  limitType: "per_hour" | "per_day",
+  limitSats: number | undefined,
+  payments: BudgetPayment[],
+  amountSats: number,
+  domain?: string,
+): void {
+  if (limitSats === undefined) return;
+  const spent = payments.reduce((sum, p) => sum + p.amount, 0);
+  if (spent + amountSats > limitSats) {
+    throw new BudgetExceededError(limitType, limitSats, spent, amountSats, domain);
+  }
+}
+
+/**
+ * A hostname in the form rules are compared in: lower case, no trailing dot,
+ * IDNs in punycode (`bücher.example` → `xn--bcher-kva.example`).
+ */
+function normalizeDomain(domain: string): string {
+  const lower = domain.trim().toLowerCase().replace(/\.$/, "");
+  return domainToASCII(lower) || lower;
+}
+
+/** Domain rules paired with their normalised form. */
+function normalizePatterns(patterns: Iterable<string>): [string, string][] {
+  return [...patterns].map((pattern) => {
+    const trimmed = pattern.trim();
+    if (trimmed === "*") return [pattern, "*"];
+    const normalized = trimmed.startsWith("*.")
+      ? `*.${normalizeDomain(trimmed.slice(2))}`
+      : normalizeDomain(trimmed);
+    return [pattern, normalized];
+  });
+}
+
+/**
+ * Whether a normalised host matches a normalised rule: `*` matches any host,
+ * `*.example.com` any subdomain of example.com at any depth (but not
+ * example.com itself), anything else only itself.
+ */
+function domainMatches(pattern: string, host: string): boolean {
+  if (pattern === "*") return true;
+  if (pattern.startsWith("*.")) return host.endsWith(pattern.slice(1));
+  return host === pattern;
+}
+
+/** Whether a price rule applies to a request (`method` upper-cased). */
+function ruleMatches(
+  rule: PriceRule,
+  domain: string,
+  path: string,
+  method: string,
+): boolean {
+  if (
+    rule.domain !== undefined &&
+    normalizeDomain(rule.domain) !== normalizeDomain(domain)
+  ) {
+    return false;
+  }
+  if (rule.method !== undefined) {
+    const methods = Array.isArray(rule.method) ? rule.method : [rule.method];
+    if (!methods.some((m) => m.toUpperCase() === method)) return false;
+  }
+  return rule.path === undefined || globToRegExp(rule.path).test(path);
+}
 
-  /** Remove payments older than 24 hours. */
-  private _prune(now: number): void {
-    const cutoff = now - 86_400_000;
-    while (this._payments.length > 0 && this._payments[0].timestamp < cutoff) {
-      this._payments.shift();
+/** A path glob as an anchored regex: `**` any, `*` within a segment, `?` one char. */
+function globToRegExp(glob: string): RegExp {
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === "*" && glob[i + 1] === "*") {
+      source += ".*";
+      i++;
+    } else if (c === "*") {
+      source += "[^/]*";
+    } else if (c === "?") {
+      source += "[^/]";
+    } else {
+      source += c.replace(/[.+^${}()|[\]\\]/g, "\\$&");
     }
   }
+  return new RegExp(`^${source}$`);
 }
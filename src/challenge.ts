@@ -1,27 +1,181 @@
 /**
- * Parse L402 challenges from HTTP 402 responses.
+ * Parse L402 and MPP payment challenges from HTTP 402 responses.
  */
 
 import { ChallengeParseError } from "./errors.js";
-import type { L402Challenge, MppChallenge } from "./types.js";
+import type {
+  L402Challenge,
+  MppChallenge,
+  PaymentReceipt,
+} from "./types.js";
 
-// Matches: L402 macaroon="...", invoice="..."
-// Also handles LSAT for backwards compatibility
-const CHALLENGE_RE =
-  /(?:L402|LSAT)\s+macaroon="(?<macaroon>[^"]+)"\s*,\s*invoice="(?<invoice>[^"]+)"/i;
+// ── RFC 7235 WWW-Authenticate tokenizer ──
 
-// Some servers use space-separated key=value without quotes
-const CHALLENGE_NOQUOTE_RE =
-  /(?:L402|LSAT)\s+macaroon=(?<macaroon>[^\s,]+)\s*,?\s*invoice=(?<invoice>[^\s,]+)/i;
+/** One challenge from a WWW-Authenticate header (RFC 7235 §4.1). */
+export interface AuthChallenge {
+  /** Auth scheme as sent; compare case-insensitively. */
+  scheme: string;
+  /**
+   * Auth-params with lower-cased names and unquoted, unescaped values. The
+   * first occurrence of a repeated name wins.
+   */
+  params: Record<string, string>;
+  /** The token68 form (e.g. `Bearer abc==`), when used instead of params. */
+  token68?: string;
+}
+
+const TCHAR_RE = /[!#$%&'*+\-.^_`|~0-9A-Za-z]/;
+const TOKEN68_CHAR_RE = /[A-Za-z0-9\-._~+/]/;
+
+/**
+ * Split a WWW-Authenticate header into its challenges.
+ *
+ * Follows RFC 7235: comma-separated challenges, each a scheme followed by
+ * either a token68 or comma-separated `name=value` auth-params, where values
+ * are tokens or quoted-strings with backslash escapes. Several header lines
+ * joined with ", " (as `Headers.get` does) parse the same as one.
+ *
+ * Lenient where servers are sloppy: unquoted values may contain any
+ * character but whitespace and comma (e.g. base64 padding), and params may
+ * be separated by whitespace alone. Unparseable fragments are skipped.
+ */
+export function parseWwwAuthenticate(header: string): AuthChallenge[] {
+  const challenges: AuthChallenge[] = [];
+  const n = header.length;
+  let i = 0;
+
+  const skip = (re: RegExp): void => {
+    while (i < n && re.test(header[i])) i++;
+  };
+  const readWhile = (re: RegExp): string => {
+    const start = i;
+    skip(re);
+    return header.slice(start, i);
+  };
+
+  /** `name = value` at the cursor, or null (cursor restored) if not. */
+  const readParam = (): [string, string] | null => {
+    const start = i;
+    const name = readWhile(TCHAR_RE);
+    skip(/[ \t]/);
+    if (!name || header[i] !== "=") {
+      i = start;
+      return null;
+    }
+    i++;
+    skip(/[ \t]/);
+
+    if (header[i] === '"') {
+      let value = "";
+      i++;
+      while (i < n && header[i] !== '"') {
+        if (header[i] === "\\" && i + 1 < n) i++;
+        value += header[i++];
+      }
+      i++; // closing quote (or past the end if unterminated)
+      return [name.toLowerCase(), value];
+    }
+
+    const value = readWhile(/[^\s,]/);
+    if (!value) {
+      i = start;
+      return null;
+    }
+    return [name.toLowerCase(), value];
+  };
+
+  /** A token68 at the cursor, ending the challenge; null (cursor kept) if not. */
+  const readToken68 = (): string | null => {
+    const start = i;
+    const token = readWhile(TOKEN68_CHAR_RE) + readWhile(/=/);
+    skip(/[ \t]/);
+    if (token && !/^=/.test(token) && (i >= n || header[i] === ",")) {
+      return token;
+    }
+    i = start;
+    return null;
+  };
+
+  for (;;) {
+    skip(/[\s,]/);
+    if (i >= n) break;
+
+    const scheme = readWhile(TCHAR_RE);
+    if (!scheme) {
+      // Not a challenge: skip to the next comma.
+      skip(/[^,]/);
+      continue;
+    }
+    const challenge: AuthChallenge = { scheme, params: {} };
+    challenges.push(challenge);
+    skip(/[ \t]/);
+
+    const token68 = readToken68();
+    if (token68 !== null) {
+      challenge.token68 = token68;
+      continue;
+    }
+
+    for (;;) {
+      const beforeSeparator = i;
+      skip(/[\s,]/);
+      const param = readParam();
+      if (param === null) {
+        // Next challenge (or junk) starts here.
+        i = beforeSeparator;
+        break;
+      }
+      const [name, value] = param;
+      if (!(name in challenge.params)) challenge.params[name] = value;
+    }
+  }
+
+  return challenges;
+}
+
+/** Whether a challenge uses the given scheme (case-insensitive). */
+function isScheme(challenge: AuthChallenge, ...schemes: string[]): boolean {
+  return schemes.includes(challenge.scheme.toLowerCase());
+}
+
+/**
+ * The L402 challenge in a parsed L402/LSAT auth challenge, or null when it
+ * lacks a macaroon or invoice. Some servers name the macaroon `token`.
+ */
+function toL402Challenge(challenge: AuthChallenge): L402Challenge | null {
+  const { params } = challenge;
+  const macaroon = (params["macaroon"] ?? params["token"])?.trim();
+  const invoice = params["invoice"]?.trim();
+  if (!macaroon || !invoice) return null;
+  return { macaroon, invoice };
+}
+
+/** The first complete challenge with the given scheme. */
+function pickL402(
+  challenges: AuthChallenge[],
+  scheme: string,
+): L402Challenge | null {
+  for (const challenge of challenges) {
+    if (!isScheme(challenge, scheme)) continue;
+    const parsed = toL402Challenge(challenge);
+    if (parsed) return parsed;
+  }
+  return null;
+}
 
 /**
  * Parse a WWW-Authenticate header containing an L402 challenge.
  *
- * Supports formats:
+ * Supports formats (params in any order, extra params such as `version=`
+ * ignored, alongside other challenges in the same header):
  *   L402 macaroon="<mac>", invoice="<bolt11>"
  *   L402 macaroon=<mac>, invoice=<bolt11>
+ *   L402 token="<mac>", invoice="<bolt11>"
  *   LSAT macaroon="<mac>", invoice="<bolt11>"  (legacy)
  *
+ * When several are present, the first complete L402 challenge wins, then the
+ * first LSAT one.
+ *
  * @throws {ChallengeParseError} If the header cannot be parsed.
  */
 export function parseChallenge(header: string): L402Challenge {
@@ -29,23 +183,17 @@ export function parseChallenge(header: string): L402Challenge {
     throw new ChallengeParseError(header, "empty header");
   }
 
-  const match =
-    CHALLENGE_RE.exec(header) ?? CHALLENGE_NOQUOTE_RE.exec(header);
-  if (!match?.groups) {
-    throw new ChallengeParseError(header, "no L402/LSAT challenge found");
-  }
-
-  const macaroon = match.groups["macaroon"].trim();
-  const invoice = match.groups["invoice"].trim();
+  const challenges = parseWwwAuthenticate(header);
+  const found = pickL402(challenges, "l402") ?? pickL402(challenges, "lsat");
+  if (found) return found;
 
-  if (!macaroon) {
-    throw new ChallengeParseError(header, "empty macaroon");
-  }
-  if (!invoice) {
-    throw new ChallengeParseError(header, "empty invoice");
+  if (challenges.some((c) => isScheme(c, "l402", "lsat"))) {
+    throw new ChallengeParseError(
+      header,
+      "L402/LSAT challenge is missing a macaroon or invoice",
+    );
   }
-
-  return { macaroon, invoice };
+  throw new ChallengeParseError(header, "no L402/LSAT challenge found");
 }
 
 /** Extract the www-authenticate header value from various header formats.
@@ -85,20 +233,68 @@ export function findL402Challenge(
 
 // ── MPP (Machine Payments Protocol) ──
 
-// Verify header contains a Payment scheme and a lightning method
-// Uses \b word boundary to handle comma-concatenated challenges (e.g., "Bearer ..., Payment ...")
-const MPP_SCHEME_RE = /\bPayment\s+/i;
-const MPP_METHOD_RE = /method="?lightning"?(?=,|\s|$)/i;
-// Extract individual fields (order-independent), allowing quoted or unquoted values
-const MPP_INVOICE_RE = /invoice="?(?<invoice>[^",\s]+)"?/i;
-const MPP_AMOUNT_RE = /amount="?(?<amount>[^",\s]+)"?/i;
-const MPP_REALM_RE = /realm="?(?<realm>[^",\s]+)"?/i;
+/**
+ * The MPP challenge in a parsed auth challenge, or null unless it is a
+ * `Payment` challenge with `method="lightning"` and an invoice.
+ */
+function toMppChallenge(challenge: AuthChallenge): MppChallenge | null {
+  if (!isScheme(challenge, "payment")) return null;
+  const { params } = challenge;
+  if (params["method"]?.toLowerCase() !== "lightning" || !params["invoice"]) {
+    return null;
+  }
+  const requestData =
+    params["request"] === undefined
+      ? undefined
+      : decodeBase64Json(params["request"]);
+  return {
+    invoice: params["invoice"],
+    amount: params["amount"],
+    realm: params["realm"],
+    id: params["id"],
+    expires: params["expires"],
+    currency: params["currency"],
+    description: params["description"],
+    request: params["request"],
+    ...(requestData ? { requestData } : {}),
+  };
+}
+
+/** Decode base64url (or base64) JSON to an object, or null if it isn't one. */
+function decodeBase64Json(value: string): Record<string, unknown> | null {
+  try {
+    const parsed: unknown = JSON.parse(
+      Buffer.from(value, "base64url").toString("utf-8"),
+    );
+    const isObject =
+      parsed !== null && typeof parsed === "object" && !Array.isArray(parsed);
+    return isObject ? (parsed as Record<string, unknown>) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Decode a `Payment-Receipt` response header (base64url JSON).
+ *
+ * @returns The receipt, or null if the header is not a base64url JSON object.
+ */
+export function parsePaymentReceipt(header: string): PaymentReceipt | null {
+  return decodeBase64Json(header.trim());
+}
 
 /**
  * Parse a WWW-Authenticate header containing an MPP Payment challenge.
  *
- * Supports format:
- *   Payment realm="...", method="lightning", invoice="<bolt11>", amount="...", currency="sat"
+ * Supports format (params in any order, alongside other challenges):
+ *   Payment id="...", realm="...", method="lightning", invoice="<bolt11>",
+ *           amount="...", currency="sat", expires="<RFC 3339>",
+ *           description="...", request="<base64url JSON>"
+ *
+ * Only `method` and `invoice` are required; absent params are undefined.
+ *
+ * The first `Payment` challenge with `method="lightning"` wins; Payment
+ * challenges for other methods are skipped.
  *
  * @throws {ChallengeParseError} If the header cannot be parsed.
  */
@@ -107,34 +303,26 @@ export function parseMppChallenge(header: string): MppChallenge {
     throw new ChallengeParseError(header ?? "", "empty header");
   }
 
-  if (!MPP_SCHEME_RE.test(header) || !MPP_METHOD_RE.test(header)) {
-    throw new ChallengeParseError(
-      header,
-      'no Payment method="lightning" challenge found',
-    );
-  }
-
-  const invoiceMatch = MPP_INVOICE_RE.exec(header);
-  if (!invoiceMatch?.groups?.invoice) {
-    throw new ChallengeParseError(
-      header,
-      'no Payment method="lightning" challenge found',
-    );
+  for (const challenge of parseWwwAuthenticate(header)) {
+    const parsed = toMppChallenge(challenge);
+    if (parsed) return parsed;
   }
-
-  const amountMatch = MPP_AMOUNT_RE.exec(header);
-  const realmMatch = MPP_REALM_RE.exec(header);
-
-  return {
-    invoice: invoiceMatch.groups.invoice,
-    amount: amountMatch?.groups?.amount,
-    realm: realmMatch?.groups?.realm,
-  };
+  throw new ChallengeParseError(
+    header,
+    'no Payment method="lightning" challenge found',
+  );
 }
 
 /**
  * Search response headers for an L402 or MPP payment challenge.
- * Prefers L402 when both present. Falls back to MPP.
+ *
+ * Every challenge in the header is considered. Preference, highest first:
+ *   1. `L402`  — current scheme name
+ *   2. `LSAT`  — legacy name of the same protocol
+ *   3. `Payment` with `method="lightning"` (MPP)
+ * Within a scheme, the first complete challenge in header order wins.
+ * Challenges of any other scheme (`Bearer`, `Basic`, non-lightning
+ * `Payment`) are ignored.
  *
  * @returns Parsed L402 or MPP challenge, or null if no payment challenge found.
  */
@@ -144,20 +332,14 @@ export function findPaymentChallenge(
   const raw = extractWwwAuthenticate(headers);
   if (!raw) return null;
 
-  // Try L402 first (preferred)
-  try {
-    return parseChallenge(raw);
-  } catch {
-    // Not L402, try MPP
-  }
+  const challenges = parseWwwAuthenticate(raw);
+  const l402 = pickL402(challenges, "l402") ?? pickL402(challenges, "lsat");
+  if (l402) return l402;
 
-  // Try MPP fallback
-  try {
-    return parseMppChallenge(raw);
-  } catch {
-    // Not MPP either
+  for (const challenge of challenges) {
+    const mpp = toMppChallenge(challenge);
+    if (mpp) return mpp;
   }
-
   return null;
 }
 
@@ -4,29 +4,95 @@
  * Drop-in enhancement to fetch(). Any API behind an L402 paywall just works.
  */
 
-import { classifyMissingAmount, extractAmountSats } from "./bolt11.js";
+import {
+  classifyMissingAmount,
+  decodeBolt11,
+  extractAmountSats,
+  preimageMatchesPaymentHash,
+} from "./bolt11.js";
+import type { DecodedInvoice } from "./bolt11.js";
+import type { ApprovalReason } from "./approval.js";
+import { baseFetch } from "./base-fetch.js";
 import { BudgetController } from "./budget.js";
-import { findPaymentChallenge } from "./challenge.js";
+import { findPaymentChallenge, parsePaymentReceipt } from "./challenge.js";
 import { CredentialCache } from "./credential-cache.js";
 import {
+  AmountMismatchError,
+  BodyNotReplayableError,
   InvoiceAmountUnknownError,
+  InvoiceExpiredError,
+  InvoiceParseError,
   L402Error,
   PaymentFailedError,
+  PaymentNotApprovedError,
+  PaymentOutcomeUnknownError,
+  PaymentRejectedError,
+  PaymentVetoedError,
+  PreimageMismatchError,
   UnsupportedWalletError,
 } from "./errors.js";
 import { SpendingLog } from "./spending-log.js";
-import type { Wallet, L402Options } from "./types.js";
+import type {
+  Wallet,
+  ApprovalOptions,
+  FetchFunction,
+  L402Challenge,
+  L402Hooks,
+  L402Options,
+  MppChallenge,
+  PaymentCredential,
+  PaymentEvent,
+  PaymentQuote,
+  PaymentRecord,
+} from "./types.js";
 import { autoDetectWallet } from "./wallets/index.js";
 
 /** Body type compatible with fetch's RequestInit.body. */
 type FetchBody = NonNullable<RequestInit["body"]>;
 
+/** A 402 challenge that passed every pre-payment check. */
+interface PaymentOffer {
+  challenge: L402Challenge | MppChallenge;
+  amountSats: number;
+  /** Null when the invoice does not decode (see `tryDecodeBolt11`). */
+  decoded: DecodedInvoice | null;
+}
+
+/** A paid, logged and cached offer, ready for the retry. */
+interface PaidOffer {
+  credential: PaymentCredential;
+  event: PaymentEvent;
+  record: PaymentRecord;
+}
+
+/** One `fetch()` call, as threaded through the payment steps. */
+interface RequestContext {
+  url: string;
+  /** `scheme://host[:port]`; credentials are cached per origin. */
+  origin: string;
+  domain: string;
+  path: string;
+  init: RequestInit;
+  body: FetchBody | null;
+  /** (Re)send the request with its current headers. */
+  send: () => Promise<Response>;
+}
+
 export class L402Client {
   private _wallet: Wallet | undefined;
   private _budget: BudgetController | null;
   private _cache: CredentialCache;
   private _fetchOptions: RequestInit;
+  private _fetchImpl: FetchFunction | undefined;
+  private _invoiceExpiryMarginSeconds: number;
+  private _refreshExpiredInvoices: boolean;
+  private _maxRepayments: number;
+  private _hooks: L402Hooks;
+  private _approval: ApprovalOptions | null;
+  private _deadlineMs: number | undefined;
   readonly spendingLog: SpendingLog;
+  /** Payments in progress, by credential cache key; settle when each ends. */
+  private _inflight = new Map<string, Promise<void>>();
 
   constructor(options: L402Options = {}) {
     this._wallet = options.wallet;
@@ -40,7 +106,19 @@ export class L402Client {
 
     this._cache = options.credentialCache ?? new CredentialCache();
     this._fetchOptions = options.fetchOptions ?? {};
-    this.spendingLog = new SpendingLog();
+    this._fetchImpl = options.fetch;
+    this._invoiceExpiryMarginSeconds = options.invoiceExpiryMarginSeconds ?? 30;
+    this._refreshExpiredInvoices = options.refreshExpiredInvoices ?? true;
+    this._maxRepayments = options.maxRepayments ?? 0;
+    this._hooks = options.hooks ?? {};
+    this._approval = options.approval ?? null;
+    this._deadlineMs = options.deadlineMs;
+    this.spendingLog = options.spendingLog ?? new SpendingLog();
+  }
+
+  /** Send one HTTP request with the configured fetch. */
+  private _http(input: string, init: RequestInit): Promise<Response> {
+    return (this._fetchImpl ?? baseFetch())(input, init);
   }
 
   private async _getWallet(): Promise<Wallet> {
@@ -56,46 +134,235 @@ export class L402Client {
    * Accepts the same arguments as global fetch(). If the server returns
    * a 402 with an L402 challenge, the invoice is paid and the request
    * is retried automatically.
+   *
+   * The body is buffered up front so the retry can resend it: a `Request` is
+   * cloned (the caller's copy stays unread), `FormData` is encoded once with
+   * a fixed multipart boundary, and streams are read to the end. A body that
+   * cannot be buffered throws `BodyNotReplayableError` before anything is
+   * sent.
+   *
+   * `init.signal` (and the `deadlineMs` option) cancel the whole call,
+   * payment included. A payment cancelled before the wallet sends it never
+   * happens; one cancelled after throws `PaymentOutcomeUnknownError`.
    */
-  async fetch(url: string | URL, init?: RequestInit): Promise<Response> {
-    const urlStr = url.toString();
+  async fetch(
+    input: string | URL | Request,
+    init?: RequestInit,
+  ): Promise<Response> {
+    if (this._deadlineMs === undefined) return this._fetch(input, init);
+
+    const parent =
+      init?.signal ??
+      (input instanceof Request ? input.signal : this._fetchOptions.signal) ??
+      null;
+    const deadline = new AbortController();
+    const timer = setTimeout(() => {
+      deadline.abort(
+        new DOMException(
+          `L402 request exceeded its ${this._deadlineMs}ms deadline`,
+          "TimeoutError",
+        ),
+      );
+    }, this._deadlineMs);
+    // The combined signal stays connected to the caller's after headers
+    // arrive, so aborting it still cancels reading the body.
+    const signal = parent ? anySignal([parent, deadline.signal]) : deadline.signal;
+    try {
+      return await this._fetch(input, { ...init, signal });
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /** `fetch()` without the deadline. */
+  private async _fetch(
+    input: string | URL | Request,
+    init?: RequestInit,
+  ): Promise<Response> {
+    const urlStr = input instanceof Request ? input.url : input.toString();
     const parsed = new URL(urlStr);
     const domain = parsed.hostname;
 
-    // Merge default fetch options with per-request options
-    const mergedInit = { ...this._fetchOptions, ...init };
-    const headers = new Headers(mergedInit.headers);
+    // Merge default fetch options with the Request's and per-request options,
+    // in the precedence fetch() itself gives them.
+    const mergedInit: RequestInit = {
+      ...this._fetchOptions,
+      ...(input instanceof Request ? await requestInit(input) : {}),
+      ...init,
+    };
 
     // Buffer the body for potential retry (fetch body is one-use)
     let bodyBuffer: FetchBody | null = null;
     if (mergedInit.body != null) {
-      bodyBuffer = await bufferBody(mergedInit.body);
+      const buffered = await bufferBody(mergedInit.body);
+      bodyBuffer = buffered.body;
+      // fetch() derives the content type from FormData, URLSearchParams and
+      // Blob bodies; keep it now that the body is plain bytes or text.
+      const baseHeaders = new Headers(mergedInit.headers);
+      if (buffered.contentType && !baseHeaders.has("content-type")) {
+        baseHeaders.set("content-type", buffered.contentType);
+        mergedInit.headers = baseHeaders;
+      }
     }
+    const headers = new Headers(mergedInit.headers);
 
     // Try cached credential first
-    const cachedCred = this._cache.get(domain, parsed.pathname);
+    const cachedCred = this._cache.get(parsed.origin, parsed.pathname);
     if (cachedCred) {
       headers.set("Authorization", CredentialCache.authorizationHeader(cachedCred));
     }
 
-    const response = await globalThis.fetch(urlStr, {
-      ...mergedInit,
-      headers,
-      body: bodyBuffer,
-    });
+    const send = (): Promise<Response> =>
+      this._http(urlStr, { ...mergedInit, headers, body: bodyBuffer });
+
+    // Single-flight per cache key: when several requests for the same
+    // credential get a 402 at once, only one pays. The rest wait for it and
+    // retry with the credential it cached. A request whose 402 arrives after
+    // another request already paid retries with that credential too, instead
+    // of paying again. The key is taken from each 402, whose MPP realm may
+    // decide the credential's scope.
+    let key = "";
+    let sentCred = cachedCred;
+    let response = await send();
+    let release: (() => void) | null = null;
+    for (;;) {
+      // A credential the server refuses (expired, revoked, already spent)
+      // would otherwise stay cached and be sent, and refused, on every
+      // request. Evict it and carry on without it; after a 401 the request
+      // goes out again bare to get a challenge.
+      if (sentCred && isRejection(response.status)) {
+        this._cache.evict(sentCred);
+        sentCred = null;
+        headers.delete("Authorization");
+        if (response.status === 401) {
+          response = await send();
+        }
+        continue;
+      }
+      if (response.status !== 402) break;
+
+      const realm = challengeRealm(response);
+      key = this._cache.keyFor(parsed.origin, parsed.pathname, realm);
+      const pending = this._inflight.get(key);
+      if (pending) {
+        await pending;
+        continue;
+      }
+      const fresh = this._cache.get(parsed.origin, parsed.pathname, realm);
+      if (fresh && fresh.preimage !== sentCred?.preimage) {
+        sentCred = fresh;
+        headers.set("Authorization", CredentialCache.authorizationHeader(fresh));
+        response = await send();
+        continue;
+      }
+      // Nobody else is paying and no newer credential exists: this request
+      // pays. Claimed synchronously after the checks, so no other request
+      // can slip in between.
+      release = this._claimPayment(key);
+      break;
+    }
 
-    if (response.status !== 402) {
-      return response;
+    const ctx: RequestContext = {
+      url: urlStr,
+      origin: parsed.origin,
+      domain,
+      path: parsed.pathname,
+      init: mergedInit,
+      body: bodyBuffer,
+      send,
+    };
+    try {
+      return await this._payAndRetry(ctx, response, release);
+    } finally {
+      release?.();
     }
+  }
 
-    // Parse L402 or MPP challenge
-    const challenge = findPaymentChallenge(response.headers);
-    if (challenge === null) {
-      return response; // 402 but no recognized payment challenge — return as-is
+  /**
+   * Mark a payment for `key` as in progress. Returns the function that ends
+   * it, waking any requests waiting on it; calling it again is a no-op.
+   */
+  private _claimPayment(key: string): () => void {
+    let settle!: () => void;
+    const pending = new Promise<void>((resolve) => {
+      settle = resolve;
+    });
+    this._inflight.set(key, pending);
+    return () => {
+      if (this._inflight.get(key) === pending) {
+        this._inflight.delete(key);
+      }
+      settle();
+    };
+  }
+
+  /**
+   * Pay the challenge in a 402 response (if any) and retry with the
+   * credential. A credential the server refuses on the retry is evicted; the
+   * fresh challenge is paid again up to `maxRepayments` times, after which
+   * `PaymentRejectedError` is thrown.
+   */
+  private async _payAndRetry(
+    ctx: RequestContext,
+    response: Response,
+    release: (() => void) | null,
+  ): Promise<Response> {
+    let repaymentsLeft = this._maxRepayments;
+    for (;;) {
+      const offer = await this._resolveOffer(response, ctx);
+      if (offer instanceof Response) {
+        return offer; // not a 402, or no recognized payment challenge — as-is
+      }
+
+      const paid = await this._pay(ctx, offer);
+      const { credential, event, record } = paid;
+
+      // Waiting requests can use the credential now; no need to hold them
+      // through this request's retry.
+      release?.();
+
+      // Retry with appropriate authorization header (delegated to CredentialCache)
+      const retryHeaders = new Headers(ctx.init.headers);
+      retryHeaders.set("Authorization", CredentialCache.authorizationHeader(credential));
+
+      const retryResponse = await this._http(ctx.url, {
+        ...ctx.init,
+        headers: retryHeaders,
+        body: ctx.body,
+      });
+      // Logged when the wallet paid; the MPP receipt comes with the retry.
+      const receiptHeader = retryResponse.headers.get("payment-receipt");
+      const receipt = receiptHeader ? parsePaymentReceipt(receiptHeader) : null;
+      if (receipt) this.spendingLog.attachReceipt(record, receipt);
+      await this._hooks.onRetryResponse?.(event, retryResponse);
+      if (!isRejection(retryResponse.status)) {
+        return retryResponse;
+      }
+
+      // Paid, yet refused. Handing back the 402 would look like an ordinary
+      // unpaid request, and a caller retrying it would pay again; the
+      // credential is useless either way, so it must not be reused.
+      this._cache.evict(credential);
+      if (repaymentsLeft <= 0) {
+        throw new PaymentRejectedError(record, retryResponse);
+      }
+      repaymentsLeft--;
+      response =
+        retryResponse.status === 402 ? retryResponse : await ctx.send();
     }
+  }
 
-    // Extract amount and check budget
-    const amountSats = extractAmountSats(challenge.invoice);
+  /**
+   * Pay an offer, verify the preimage, log the payment and cache the
+   * credential. Failures are logged, and reported to `onPaymentFailed`,
+   * before they are thrown.
+   */
+  private async _pay(
+    ctx: RequestContext,
+    offer: PaymentOffer,
+  ): Promise<PaidOffer> {
+    const { domain, path } = ctx;
+    const { challenge, amountSats, decoded } = offer;
 
     // Macaroon from the parsed challenge, recorded at payment time so
     // two-step flows can rebuild `L402 {macaroon}:{preimage}` later.
@@ -103,29 +370,6 @@ export class L402Client {
     // casting; MPP challenges carry no macaroon.
     const macaroonValue = "macaroon" in challenge ? challenge.macaroon : null;
 
-    // An amount we can't determine is an amount we can't authorise. Paying
-    // anyway would skip `budget.check` entirely — and that call is not just the
-    // per-request/hour/day sats limits but the domain allowlist too — while the
-    // spend would also never reach the log below, hiding it from every LATER
-    // budget check. A server that wants a blank cheque only has to send an
-    // amountless invoice. Refuse instead, before any funds move.
-    //
-    // `<= 0` is refused alongside null: a literal-zero invoice ("lnbc0p1...")
-    // DECODES to 0, not null — the amount field is present, it is just zero — so
-    // a bare null-check waves it through, budget.check(0) passes, and the wallet
-    // (not the server) then picks the spend. The resolved amount must be
-    // strictly positive, the same blank-cheque hole ledger #42 closes for MPP.
-    if (amountSats === null || amountSats <= 0) {
-      throw new InvoiceAmountUnknownError(
-        classifyMissingAmount(challenge.invoice),
-        challenge.invoice,
-      );
-    }
-
-    if (this._budget) {
-      this._budget.check(amountSats, domain);
-    }
-
     // Pay the invoice
     const wallet = await this._getWallet();
 
@@ -146,54 +390,376 @@ export class L402Client {
       );
     }
 
+    const event: PaymentEvent = { challenge, amountSats, domain, path, wallet };
+    await this._hooks.onChallenge?.(event);
+    if ((await this._hooks.beforePayment?.(event)) === false) {
+      throw new PaymentVetoedError(domain, amountSats);
+    }
+    const signal = ctx.init.signal ?? undefined;
+    await this._requireApproval(event, signal);
+    // Other requests may have spent while the hooks or a human were deciding;
+    // the check in _resolveOffer is stale by now.
+    this._budget?.check(amountSats, domain, path, ctx.init.method);
+
     let preimage: string;
     try {
-      preimage = await wallet.payInvoice(challenge.invoice);
+      // Aborted during the hooks or approval: nothing has been paid yet.
+      signal?.throwIfAborted();
+      preimage = await wallet.payInvoice(challenge.invoice, { signal });
     } catch (e) {
+      // Cancelled before the wallet sent anything: no payment to account for.
+      if (signal?.aborted && e === signal.reason) throw e;
+      if (e instanceof PaymentOutcomeUnknownError) {
+        await this._recordUnknownOutcome(event, macaroonValue ?? "", e);
+        throw e;
+      }
       this.spendingLog.record(
         domain,
-        parsed.pathname,
+        path,
         amountSats,
         "",
         false,
         macaroonValue ?? "",
       );
-      if (e instanceof L402Error) throw e;
-      throw new PaymentFailedError(
-        String(e instanceof Error ? e.message : e),
-        challenge.invoice,
-      );
+      const error =
+        e instanceof L402Error
+          ? e
+          : new PaymentFailedError(
+              String(e instanceof Error ? e.message : e),
+              challenge.invoice,
+            );
+      await this._hooks.onPaymentFailed?.(event, error);
+      throw error;
     }
 
     // Record successful payment. `amountSats` is always known by this point —
     // unknown amounts were refused above — so every payment the client makes
     // lands in the budget and the log, with no silent gaps.
-    if (this._budget) {
-      this._budget.recordPayment(amountSats);
+    await this._recordSpend(amountSats, domain);
+
+    // The wallet says it paid, but only a preimage that hashes to the
+    // invoice's payment hash proves it — and only that preimage makes a
+    // credential the server will accept. A wrong one (buggy adapter, a
+    // mis-decoded encoding) must not be cached and replayed forever. The sats
+    // are spent either way, so the spend is still budgeted and logged.
+    if (
+      decoded !== null &&
+      !preimageMatchesPaymentHash(preimage, decoded.paymentHash)
+    ) {
+      this.spendingLog.record(
+        domain,
+        path,
+        amountSats,
+        preimage,
+        true,
+        macaroonValue ?? "",
+        { unusable: true },
+      );
+      const error = new PreimageMismatchError(
+        preimage,
+        decoded.paymentHash,
+        challenge.invoice,
+      );
+      await this._hooks.onPaymentFailed?.(event, error);
+      throw error;
     }
-    this.spendingLog.record(
+
+    // Logged the moment the payment is known good, not after the retry: a
+    // retry that hangs or a crash must not lose a settled payment, and the
+    // approval check for new domains reads this log.
+    const record = this.spendingLog.record(
       domain,
-      parsed.pathname,
+      path,
       amountSats,
       preimage,
       true,
       macaroonValue ?? "",
     );
 
-    // Cache the credential and reuse CredentialCache.authorizationHeader() for retry
-    const credential = this._cache.put(domain, parsed.pathname, macaroonValue, preimage);
+    // Cache the credential so later requests to this scope don't re-pay.
+    // MPP credentials keep the challenge params they must echo.
+    const credential = this._cache.put(
+      ctx.origin,
+      path,
+      macaroonValue,
+      preimage,
+      undefined,
+      "macaroon" in challenge ? undefined : challenge,
+    );
+    // Settled, logged and cached: a retry that fails from here on does not
+    // undo the payment.
+    await this._hooks.onPaymentSucceeded?.(event, record);
+    return { credential, event, record };
+  }
+
+  /**
+   * Count a payment against the budget. The sats are already spent: a store
+   * that cannot take the write (lock timeout, unreadable file) is warned
+   * about rather than thrown, so the payment is still logged, its credential
+   * cached and the request retried instead of paid for again.
+   */
+  private async _recordSpend(amountSats: number, domain: string): Promise<void> {
+    try {
+      await this._budget?.recordPayment(amountSats, domain);
+    } catch (e) {
+      // eslint-disable-next-line no-console
+      console.warn(
+        `Budget store failed to record a ${amountSats} sat payment to ${domain}: ${(e as Error).message}`,
+      );
+    }
+  }
 
-    // Retry with appropriate authorization header (delegated to CredentialCache)
-    const retryHeaders = new Headers(mergedInit.headers);
-    retryHeaders.set("Authorization", CredentialCache.authorizationHeader(credential));
+  /**
+   * Account for a payment cancelled after it was sent. It may yet settle, so
+   * it counts against the budget like a payment; it is logged as not (known
+   * to be) successful.
+   */
+  private async _recordUnknownOutcome(
+    event: PaymentEvent,
+    macaroon: string,
+    error: PaymentOutcomeUnknownError,
+  ): Promise<void> {
+    await this._recordSpend(event.amountSats, event.domain);
+    this.spendingLog.record(
+      event.domain,
+      event.path,
+      event.amountSats,
+      "",
+      false,
+      macaroon,
+      { outcomeUnknown: true },
+    );
+    await this._hooks.onPaymentFailed?.(event, error);
+  }
 
-    const retryResponse = await globalThis.fetch(urlStr, {
-      ...mergedInit,
-      headers: retryHeaders,
-      body: bodyBuffer,
+  /**
+   * Wait for the approval provider when the payment needs it. Anything but
+   * an explicit approval within the timeout — a denial, no answer, a provider
+   * error — throws `PaymentNotApprovedError`. Runs before the wallet is
+   * called, so a refused payment never reaches the budget or the log.
+   */
+  private async _requireApproval(
+    event: PaymentEvent,
+    signal?: AbortSignal,
+  ): Promise<void> {
+    const approval = this._approval;
+    if (approval === null) return;
+
+    // Without a threshold every payment asks, unless only new domains should.
+    const aboveSats = approval.aboveSats ?? (approval.newDomains ? undefined : 0);
+    const reasons: ApprovalReason[] = [];
+    if (aboveSats !== undefined && event.amountSats > aboveSats) {
+      reasons.push("above_threshold");
+    }
+    if (
+      approval.newDomains &&
+      !this.spendingLog.records.some(
+        (r) => r.success && r.domain === event.domain,
+      )
+    ) {
+      reasons.push("new_domain");
+    }
+    if (reasons.length === 0) return;
+
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeoutMs = approval.timeoutMs ?? 60_000;
+    const timeout = new Promise<"timeout">((resolve) => {
+      timer = setTimeout(() => resolve("timeout"), timeoutMs);
+    });
+    // The request being cancelled ends the wait too.
+    let onAbort: (() => void) | undefined;
+    const aborted = new Promise<"aborted">((resolve) => {
+      onAbort = () => resolve("aborted");
+      if (signal?.aborted) onAbort();
+      signal?.addEventListener("abort", onAbort);
     });
 
-    return retryResponse;
+    let outcome: boolean | "timeout" | "error" | "aborted";
+    try {
+      outcome = await Promise.race([
+        approval.provider.requestApproval(
+          {
+            domain: event.domain,
+            path: event.path,
+            amountSats: event.amountSats,
+            challenge: event.challenge,
+            reasons,
+          },
+          controller.signal,
+        ),
+        timeout,
+        aborted,
+      ]);
+    } catch {
+      outcome = "error";
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort!);
+      controller.abort();
+    }
+
+    if (outcome === "aborted") throw signal!.reason;
+    if (outcome !== true) {
+      throw new PaymentNotApprovedError(
+        event.domain,
+        event.amountSats,
+        outcome === false ? "denied" : outcome,
+      );
+    }
+  }
+
+  /**
+   * Turn a response into something to pay: parse the challenge, price the
+   * invoice and check it against the budget, refusing before any funds move.
+   * An invoice that has expired, or would within the safety margin, is
+   * refreshed by re-requesting the resource once (when enabled). Returns the
+   * response itself when there is nothing to pay.
+   */
+  private async _resolveOffer(
+    response: Response,
+    ctx: RequestContext,
+  ): Promise<PaymentOffer | Response> {
+    let refreshed = false;
+    for (;;) {
+      if (response.status !== 402) return response;
+
+      // Parse L402 or MPP challenge
+      const challenge = findPaymentChallenge(response.headers);
+      if (challenge === null) return response;
+
+      // Extract amount
+      const amountSats = extractAmountSats(challenge.invoice);
+
+      // An amount we can't determine is an amount we can't authorise. Paying
+      // anyway would skip `budget.check` entirely — and that call is not just
+      // the per-request/hour/day sats limits but the domain allowlist too —
+      // while the spend would also never reach the log, hiding it from every
+      // LATER budget check. A server that wants a blank cheque only has to
+      // send an amountless invoice. Refuse instead, before any funds move.
+      //
+      // `<= 0` is refused alongside null: a literal-zero invoice
+      // ("lnbc0p1...") DECODES to 0, not null — the amount field is present,
+      // it is just zero — so a bare null-check waves it through,
+      // budget.check(0) passes, and the wallet (not the server) then picks the
+      // spend. The resolved amount must be strictly positive, the same
+      // blank-cheque hole ledger #42 closes for MPP.
+      if (amountSats === null || amountSats <= 0) {
+        throw new InvoiceAmountUnknownError(
+          classifyMissingAmount(challenge.invoice),
+          challenge.invoice,
+        );
+      }
+
+      // Full decode for the checks that need more than the amount (expiry
+      // here, payment hash binding after paying). Null when the invoice fails
+      // its checksum: no wallet can pay such an invoice, so those checks have
+      // nothing to protect.
+      const decoded = tryDecodeBolt11(challenge.invoice);
+
+      // An MPP server quoting one price and invoicing another is a bait and
+      // switch: the wallet pays the invoice, not the quote.
+      checkAdvertisedAmount(challenge, amountSats, decoded);
+
+      // A stale invoice would only come back from the wallet as a confusing,
+      // wallet-specific PaymentFailedError — or, inside the margin, expire
+      // mid-route. Ask the server for a fresh challenge instead, once.
+      if (decoded !== null && this._isExpiring(decoded)) {
+        if (refreshed || !this._refreshExpiredInvoices) {
+          throw new InvoiceExpiredError(challenge.invoice, decoded.expiresAt);
+        }
+        refreshed = true;
+        response = await ctx.send();
+        continue;
+      }
+
+      if (this._budget) {
+        this._budget.check(amountSats, ctx.domain, ctx.path, ctx.init.method);
+      }
+
+      return { challenge, amountSats, decoded };
+    }
+  }
+
+  /** Whether an invoice has expired or will within the safety margin. */
+  private _isExpiring(invoice: DecodedInvoice): boolean {
+    const nowSeconds = Date.now() / 1000;
+    return invoice.expiresAt - this._invoiceExpiryMarginSeconds <= nowSeconds;
+  }
+
+  /**
+   * Find out what a request would cost without paying: send it (with a
+   * cached credential, as `fetch()` would), and price any 402 challenge
+   * against the budget. Nothing is paid, recorded or cached. A cached
+   * credential the server refuses is evicted, as `fetch()` would, and after
+   * a 401 the request is sent again without it. Returns null when the
+   * request needs no payment.
+   *
+   * The request really is sent — quote idempotent requests only.
+   */
+  async quote(
+    url: string | URL,
+    init?: RequestInit,
+  ): Promise<PaymentQuote | null> {
+    const urlStr = url.toString();
+    const parsed = new URL(urlStr);
+    const domain = parsed.hostname;
+
+    const mergedInit = { ...this._fetchOptions, ...init };
+    const headers = new Headers(mergedInit.headers);
+    const cachedCred = this._cache.get(parsed.origin, parsed.pathname);
+    if (cachedCred) {
+      headers.set("Authorization", CredentialCache.authorizationHeader(cachedCred));
+    }
+
+    let response = await this._http(urlStr, { ...mergedInit, headers });
+    // A refused credential would be evicted and paid for by fetch(); price
+    // that payment rather than reporting none.
+    if (cachedCred && isRejection(response.status)) {
+      this._cache.evict(cachedCred);
+      headers.delete("Authorization");
+      if (response.status === 401) {
+        response = await this._http(urlStr, { ...mergedInit, headers });
+      }
+    }
+    if (response.status !== 402) return null;
+    const challenge = findPaymentChallenge(response.headers);
+    if (challenge === null) return null;
+
+    const amountSats = extractAmountSats(challenge.invoice);
+    const decoded = tryDecodeBolt11(challenge.invoice);
+
+    // The same refusals `_resolveOffer` applies, reported instead of thrown.
+    let refusal: L402Error | undefined;
+    if (amountSats === null || amountSats <= 0) {
+      refusal = new InvoiceAmountUnknownError(
+        classifyMissingAmount(challenge.invoice),
+        challenge.invoice,
+      );
+    } else {
+      try {
+        checkAdvertisedAmount(challenge, amountSats, decoded);
+        this._budget?.check(
+          amountSats,
+          domain,
+          parsed.pathname,
+          mergedInit.method,
+        );
+      } catch (e) {
+        if (!(e instanceof L402Error)) throw e;
+        refusal = e;
+      }
+    }
+
+    return {
+      scheme: "macaroon" in challenge ? "l402" : "payment",
+      challenge,
+      amountSats,
+      expiresAt: decoded?.expiresAt ?? null,
+      description: decoded?.description ?? null,
+      withinBudget: refusal === undefined,
+      ...(refusal ? { refusal } : {}),
+    };
   }
 
   async get(url: string, init?: RequestInit): Promise<Response> {
@@ -221,35 +787,198 @@ export class L402Client {
   }
 }
 
+/**
+ * A signal that aborts when any of `signals` does. `AbortSignal.any` where
+ * available (Node 20.3+); otherwise listeners that stay attached for the
+ * life of the inputs.
+ */
+function anySignal(signals: AbortSignal[]): AbortSignal {
+  if (typeof AbortSignal.any === "function") return AbortSignal.any(signals);
+  const controller = new AbortController();
+  for (const signal of signals) {
+    if (signal.aborted) {
+      controller.abort(signal.reason);
+      break;
+    }
+    signal.addEventListener("abort", () => controller.abort(signal.reason), {
+      once: true,
+    });
+  }
+  return controller.signal;
+}
+
+/** The realm of a 402's MPP challenge, for realm-scoped credentials. */
+function challengeRealm(response: Response): string | undefined {
+  const challenge = findPaymentChallenge(response.headers);
+  return challenge && !("macaroon" in challenge) ? challenge.realm : undefined;
+}
+
+/** Whether a response refuses the credential it was sent with. */
+function isRejection(status: number): boolean {
+  return status === 401 || status === 402;
+}
+
+/** Decode a BOLT11 invoice, or null if it fails to decode. */
+function tryDecodeBolt11(bolt11: string): DecodedInvoice | null {
+  try {
+    return decodeBolt11(bolt11);
+  } catch (e) {
+    if (e instanceof InvoiceParseError) return null;
+    throw e;
+  }
+}
+
+/** The init equivalent of a Request, read from a clone. */
+async function requestInit(request: Request): Promise<RequestInit> {
+  if (request.bodyUsed) {
+    throw new BodyNotReplayableError("the Request body has already been read");
+  }
+  return {
+    method: request.method,
+    headers: request.headers,
+    body: request.body === null ? null : await request.clone().arrayBuffer(),
+    signal: request.signal,
+    redirect: request.redirect,
+    credentials: request.credentials,
+    cache: request.cache,
+    integrity: request.integrity,
+    keepalive: request.keepalive,
+    mode: request.mode,
+    referrer: request.referrer,
+    referrerPolicy: request.referrerPolicy,
+  };
+}
+
 /**
  * Buffer a request body so it can be replayed after a 402 retry.
  * fetch() Request bodies are one-use streams; this consumes the body
- * and returns a reusable form (string, ArrayBuffer, or Uint8Array).
+ * and returns a reusable form (string, ArrayBuffer, or a byte view), with
+ * the content type fetch() would have derived from the original, if any.
+ *
+ * @throws {BodyNotReplayableError} For a locked stream or an unknown body type.
  */
-async function bufferBody(body: FetchBody): Promise<FetchBody> {
-  if (typeof body === "string") return body;
-  if (body instanceof ArrayBuffer) return body;
-  if (body instanceof Uint8Array) return body;
-  if (body instanceof Blob) return await body.arrayBuffer();
+async function bufferBody(
+  body: FetchBody,
+): Promise<{ body: FetchBody; contentType?: string }> {
+  if (typeof body === "string") return { body };
+  if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) return { body };
+  if (body instanceof Blob) {
+    return {
+      body: await body.arrayBuffer(),
+      ...(body.type ? { contentType: body.type } : {}),
+    };
+  }
+  if (body instanceof URLSearchParams) {
+    return {
+      body: body.toString(),
+      contentType: "application/x-www-form-urlencoded;charset=UTF-8",
+    };
+  }
+  if (body instanceof FormData) {
+    // Encode once: every send reuses these bytes and their boundary.
+    const encoded = new Response(body);
+    return {
+      body: await encoded.arrayBuffer(),
+      contentType: encoded.headers.get("content-type") ?? undefined,
+    };
+  }
   if (body instanceof ReadableStream) {
-    const reader = body.getReader();
-    const chunks: Uint8Array[] = [];
+    if (body.locked) {
+      throw new BodyNotReplayableError(
+        "the body stream is locked or already read",
+      );
+    }
+    return { body: await readAll(body) };
+  }
+  if (isAsyncIterable(body)) {
+    // e.g. a Node.js Readable
+    return { body: await readAll(body) };
+  }
+  throw new BodyNotReplayableError(
+    `unsupported body type ${Object.prototype.toString.call(body)}`,
+  );
+}
+
+/** Concatenate every chunk of a stream. */
+async function readAll(
+  stream: ReadableStream<Uint8Array> | AsyncIterable<Uint8Array | string>,
+): Promise<Uint8Array> {
+  const chunks: Uint8Array[] = [];
+  if (stream instanceof ReadableStream) {
+    const reader = stream.getReader();
     for (;;) {
       const { done, value } = await reader.read();
       if (done) break;
       chunks.push(value);
     }
-    const totalLen = chunks.reduce((acc, c) => acc + c.length, 0);
-    const result = new Uint8Array(totalLen);
-    let offset = 0;
-    for (const chunk of chunks) {
-      result.set(chunk, offset);
-      offset += chunk.length;
+  } else {
+    for await (const chunk of stream) {
+      chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : chunk);
     }
-    return result;
   }
-  // URLSearchParams, FormData — convert to string
-  if (body instanceof URLSearchParams) return body.toString();
-  // FormData: not bufferable in a simple way, pass through
-  return body;
+  const totalLen = chunks.reduce((acc, c) => acc + c.length, 0);
+  const result = new Uint8Array(totalLen);
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
+
+function isAsyncIterable(
+  value: unknown,
+): value is AsyncIterable<Uint8Array | string> {
+  return (
+    typeof (value as AsyncIterable<unknown> | null)?.[Symbol.asyncIterator] ===
+    "function"
+  );
+}
+
+/** Millisatoshis per unit of each MPP `currency` the invoice can be checked in. */
+const MSAT_PER_UNIT: Record<string, bigint> = {
+  msat: 1n,
+  msats: 1n,
+  millisatoshi: 1n,
+  millisatoshis: 1n,
+  sat: 1_000n,
+  sats: 1_000n,
+  satoshi: 1_000n,
+  satoshis: 1_000n,
+  btc: 100_000_000_000n,
+};
+
+/**
+ * Refuse an MPP challenge whose advertised `amount` differs from what its
+ * invoice encodes. `currency` defaults to sats; a challenge without an
+ * `amount` has nothing to compare and passes. A unit with no fixed sat value
+ * (e.g. `usd`) cannot be checked and is refused, as is an `amount` that is
+ * not a plain decimal number.
+ *
+ * @throws {AmountMismatchError} Showing both the advertised and invoice amounts.
+ */
+function checkAdvertisedAmount(
+  challenge: L402Challenge | MppChallenge,
+  amountSats: number,
+  decoded: DecodedInvoice | null,
+): void {
+  if ("macaroon" in challenge || challenge.amount === undefined) return;
+  const currency = challenge.currency?.trim() || "sat";
+  const msatPerUnit = MSAT_PER_UNIT[currency.toLowerCase()];
+
+  // Exact comparison in msat: amount = digits / 10^decimals units.
+  const invoiceMsat = decoded?.amountMsat ?? amountSats * 1000;
+  const amount = challenge.amount.trim();
+  const match = /^(\d+)(?:\.(\d+))?$/.exec(amount);
+  if (match && msatPerUnit !== undefined) {
+    const decimals = match[2] ?? "";
+    const digits = BigInt(match[1] + decimals);
+    const scale = 10n ** BigInt(decimals.length);
+    if (digits * msatPerUnit === BigInt(invoiceMsat) * scale) return;
+  }
+  throw new AmountMismatchError(
+    `${amount} ${currency}`,
+    invoiceMsat,
+    challenge.invoice,
+  );
 }
@@ -1,50 +1,186 @@
 /**
- * LRU credential cache for L402 tokens, keyed by "domain::path_prefix".
+ * LRU credential cache for L402 tokens, keyed by "origin::scope" (see
+ * `CredentialScope`).
  *
  * Uses JS Map which preserves insertion order. Delete-then-set for move-to-end.
- * No locks needed (single-threaded).
+ * No locks needed (single-threaded). Writes are mirrored to a CredentialStore
+ * (in-memory by default) so paid-for credentials can outlive the process.
  */
 
-import type { PaymentCredential, CacheOptions } from "./types.js";
-import { L402Error } from "./errors.js";
+import type {
+  PaymentCredential,
+  CacheOptions,
+  CredentialScope,
+  CredentialScopeTarget,
+  MppChallenge,
+  MppChallengeEcho,
+} from "./types.js";
+import type { CredentialStore } from "./credential-store.js";
+import { MemoryCredentialStore } from "./credential-store.js";
+import { L402Error, MacaroonParseError } from "./errors.js";
+import type { DecodedMacaroon } from "./macaroon.js";
+import {
+  decodeMacaroon,
+  macaroonExpiry,
+  macaroonServices,
+} from "./macaroon.js";
 
 /** Strict hex string pattern — only lowercase/uppercase hex digits. */
 const HEX_RE = /^[0-9a-fA-F]+$/;
 
 /**
- * Normalize domain and path into a cache key string.
- * Groups paths by their first two segments so /api/v1/foo and /api/v1/bar
- * share the same credential.
+ * `scheme://host[:port]` for an origin or URL; a bare hostname means https.
+ * Default ports are dropped and the host lower-cased, as `URL` does.
  */
-function cacheKey(domain: string, path: string): string {
-  domain = domain.toLowerCase().trim();
-  const parts = path.split("/").filter(Boolean);
-  const prefix =
-    parts.length >= 2
-      ? "/" + parts.slice(0, 2).join("/")
-      : "/" + parts.join("/");
-  return `${domain}::${prefix}`;
+function normalizeOrigin(domain: string): string {
+  const value = domain.trim();
+  return new URL(value.includes("://") ? value : `https://${value}`).origin;
 }
 
+/**
+ * The scope part of a cache key. The default groups paths by their first two
+ * segments so /api/v1/foo and /api/v1/bar share the same credential.
+ */
+function scopeKey(scope: CredentialScope, target: CredentialScopeTarget): string {
+  if (typeof scope === "function") return scope(target);
+  switch (scope) {
+    case "origin":
+      return "*";
+    case "exact-path":
+      return target.path || "/";
+    case "realm":
+      if (target.realm !== undefined) return `realm=${target.realm}`;
+      break;
+  }
+  const parts = target.path.split("/").filter(Boolean);
+  return "/" + parts.slice(0, 2).join("/");
+}
+
+/** The params of an MPP challenge that its credential echoes back. */
+function mppChallengeEcho(challenge: MppChallenge): MppChallengeEcho {
+  const echo: MppChallengeEcho = {};
+  for (const name of ["id", "realm", "request", "expires"] as const) {
+    if (challenge[name] !== undefined) echo[name] = challenge[name];
+  }
+  return echo;
+}
+
+/**
+ * Quote a server-supplied value for an auth-param. Control characters (CR/LF
+ * header injection) are refused; quotes and backslashes are escaped.
+ */
+function quoteParam(value: string): string {
+  if (/[\x00-\x08\x0a-\x1f\x7f]/.test(value)) {
+    throw new L402Error(
+      "Invalid challenge parameter: control characters are not allowed",
+    );
+  }
+  return `"${value.replace(/["\\]/g, "\\$&")}"`;
+}
+
+/** Decode a macaroon, or null if it is not one we can read (opaque token). */
+function tryDecodeMacaroon(macaroon: string): DecodedMacaroon | null {
+  try {
+    return decodeMacaroon(macaroon);
+  } catch (e) {
+    if (e instanceof MacaroonParseError) return null;
+    throw e;
+  }
+}
+
+/**
+ * Credentials by request scope. `domain` arguments take a bare hostname
+ * (meaning `https://<hostname>`) or a full origin such as
+ * `http://localhost:8080`; credentials are never shared across origins.
+ */
 export class CredentialCache {
   private _maxSize: number;
   private _defaultTtlMs: number | null;
   private _cache = new Map<string, PaymentCredential>();
+  private _store: CredentialStore;
+  private _scope: CredentialScope;
+  private _domainScopes: Map<string, CredentialScope>;
+  /** MPP realm last paid for each "origin::path", for realm-scoped lookups. */
+  private _realms = new Map<string, string>();
+  /** Asynchronous store writes still running, chained in order. */
+  private _pending: Promise<void> | null = null;
+  /** First asynchronous store write that failed since the last `flush()`. */
+  private _storeError: unknown = undefined;
 
   constructor(options: CacheOptions = {}) {
     this._maxSize = options.maxSize ?? 256;
     this._defaultTtlMs = options.defaultTtlMs ?? 3_600_000; // 1 hour
+    this._store = options.store ?? new MemoryCredentialStore();
+    this._scope = options.scope ?? "path-prefix";
+    this._domainScopes = new Map(
+      Object.entries(options.domainScopes ?? {}).map(([domain, scope]) => [
+        domain.toLowerCase().trim(),
+        scope,
+      ]),
+    );
+
+    // Warm from the store, oldest first, so the LRU order survives a restart.
+    for (const [key, cred] of this._store.load()) {
+      this._cache.delete(key);
+      this._cache.set(key, cred);
+    }
+    this._evictOverflow();
   }
 
-  /** Retrieve a cached credential for the given domain and path. */
-  get(domain: string, path: string): PaymentCredential | null {
-    const key = cacheKey(domain, path);
+  /**
+   * Retrieve a cached credential for the given domain and path.
+   *
+   * Looks up the path's own key first, then falls back to any credential on
+   * the same origin whose macaroon `services` caveat names one of the path's
+   * segments (e.g. a `services=weather:0` token for `/v2/weather/today`).
+   * Service names are server configuration, not necessarily path segments,
+   * so they only ever widen reuse: the path's own credential is returned
+   * whatever its caveat names. `realm` is the MPP realm of a challenge just
+   * received, if any.
+   */
+  get(domain: string, path: string, realm?: string): PaymentCredential | null {
+    const key = this.keyFor(domain, path, realm);
+    const own = this._live(key);
+    if (own) return own;
+
+    const originPrefix = `${normalizeOrigin(domain)}::`;
+    const segments = new Set(path.split("/").filter(Boolean));
+    for (const [otherKey, cred] of [...this._cache]) {
+      if (!otherKey.startsWith(originPrefix) || cred.scheme !== "l402") continue;
+      if (cred.services?.some((s) => segments.has(s))) {
+        const live = this._live(otherKey);
+        if (live) return live;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * The key a credential for this domain and path is stored under. Requests
+   * with the same key share one credential.
+   */
+  keyFor(domain: string, path: string, realm?: string): string {
+    const origin = normalizeOrigin(domain);
+    const hostname = new URL(origin).hostname;
+    const scope = this._domainScopes.get(hostname) ?? this._scope;
+    const target: CredentialScopeTarget = {
+      origin,
+      hostname,
+      path,
+      realm: realm ?? this._realms.get(`${origin}::${path}`),
+    };
+    return `${origin}::${scopeKey(scope, target)}`;
+  }
+
+  /** Fetch a credential by key, dropping it if expired and marking it used. */
+  private _live(key: string): PaymentCredential | null {
     const cred = this._cache.get(key);
     if (!cred) return null;
 
     // Check expiry
     if (cred.expiresAt !== null && Date.now() >= cred.expiresAt) {
       this._cache.delete(key);
+      this._persist(() => this._store.delete(key));
       return null;
     }
 
@@ -54,22 +190,39 @@ export class CredentialCache {
     return cred;
   }
 
-  /** Store a credential in the cache. */
+  /**
+   * Store a credential in the cache.
+   *
+   * Without an explicit `expiresAt`, an expiry caveat in the macaroon
+   * (`valid_until`, `<service>_valid_until`, `time < ...`) sets the expiry —
+   * shorter or longer than `defaultTtlMs` — so dead tokens aren't sent and
+   * live ones aren't paid for again. Macaroons without one, opaque tokens and
+   * MPP credentials get the default TTL.
+   */
   put(
     domain: string,
     path: string,
     macaroon: string | null,
     preimage: string,
     expiresAt?: number | null,
+    mppChallenge?: MppChallenge,
   ): PaymentCredential {
-    const key = cacheKey(domain, path);
+    const realm = mppChallenge?.realm;
+    if (realm !== undefined) this._rememberRealm(domain, path, realm);
+    const key = this.keyFor(domain, path, realm);
+    const decoded = macaroon === null ? null : tryDecodeMacaroon(macaroon);
+    const caveatExpiresAt = decoded === null ? null : macaroonExpiry(decoded);
 
     const resolvedExpiresAt =
       expiresAt !== undefined
         ? expiresAt
-        : this._defaultTtlMs !== null
-          ? Date.now() + this._defaultTtlMs
-          : null;
+        : caveatExpiresAt !== null
+          ? caveatExpiresAt
+          : this._defaultTtlMs !== null
+            ? Date.now() + this._defaultTtlMs
+            : null;
+    const services =
+      decoded === null ? [] : macaroonServices(decoded).map((s) => s.name);
 
     const cred: PaymentCredential = macaroon === null
       ? {
@@ -78,6 +231,9 @@ export class CredentialCache {
           preimage,
           createdAt: Date.now(),
           expiresAt: resolvedExpiresAt ?? null,
+          ...(mppChallenge
+            ? { challenge: mppChallengeEcho(mppChallenge) }
+            : {}),
         }
       : {
           scheme: "l402" as const,
@@ -85,19 +241,48 @@ export class CredentialCache {
           preimage,
           createdAt: Date.now(),
           expiresAt: resolvedExpiresAt ?? null,
+          ...(services.length > 0 ? { services } : {}),
         };
 
     // Delete first if exists (for move-to-end)
     this._cache.delete(key);
     this._cache.set(key, cred);
+    this._persist(() => this._store.set(key, cred));
 
-    // Evict oldest if over capacity
+    this._evictOverflow();
+    return cred;
+  }
+
+  /**
+   * Drop a credential the server no longer accepts, from the store as well,
+   * so it is not sent again. Matched by preimage, under whichever key holds it.
+   */
+  evict(credential: PaymentCredential): void {
+    for (const [key, cred] of [...this._cache]) {
+      if (cred.preimage === credential.preimage) {
+        this._cache.delete(key);
+        this._persist(() => this._store.delete(key));
+      }
+    }
+  }
+
+  /** Note the realm paid for a path, keeping as many as credentials. */
+  private _rememberRealm(domain: string, path: string, realm: string): void {
+    const pathKey = `${normalizeOrigin(domain)}::${path}`;
+    this._realms.delete(pathKey);
+    this._realms.set(pathKey, realm);
+    if (this._realms.size > this._maxSize) {
+      this._realms.delete(this._realms.keys().next().value!);
+    }
+  }
+
+  /** Evict oldest entries while over capacity, from the store as well. */
+  private _evictOverflow(): void {
     while (this._cache.size > this._maxSize) {
       const oldest = this._cache.keys().next().value!;
       this._cache.delete(oldest);
+      this._persist(() => this._store.delete(oldest));
     }
-
-    return cred;
   }
 
   /** Build the Authorization header value for a credential.
@@ -110,14 +295,59 @@ export class CredentialCache {
       );
     }
     if (cred.scheme === "payment") {
-      return `Payment method="lightning", preimage="${cred.preimage}"`;
+      // Echo the challenge params (draft-ryan-httpauth-payment) so servers
+      // that bind credentials to a challenge id accept the retry.
+      const echo = cred.challenge ?? {};
+      const params: Array<[string, string | undefined]> = [
+        ["id", echo.id],
+        ["realm", echo.realm],
+        ["method", "lightning"],
+        ["request", echo.request],
+        ["expires", echo.expires],
+      ];
+      const echoed = params
+        .filter((p): p is [string, string] => p[1] !== undefined)
+        .map(([name, value]) => `${name}=${quoteParam(value)}`);
+      return `Payment ${echoed.join(", ")}, preimage="${cred.preimage}"`;
     }
     return `L402 ${cred.macaroon}:${cred.preimage}`;
   }
 
-  /** Remove all cached credentials. */
+  /** Remove all cached credentials, from the store as well. */
   clear(): void {
     this._cache.clear();
+    this._realms.clear();
+    this._persist(() => this._store.clear());
+  }
+
+  /**
+   * Wait for store writes still in flight (a `FileCredentialStore` writes in
+   * the background, off the request path). Rejects with the first write that
+   * failed since the last call.
+   */
+  async flush(): Promise<void> {
+    while (this._pending) await this._pending;
+    const error = this._storeError;
+    this._storeError = undefined;
+    if (error !== undefined) throw error;
+  }
+
+  /**
+   * Mirror a change to the store. Synchronous stores are written at once;
+   * asynchronous writes run one after another in call order, without the
+   * caller waiting (see `flush`).
+   */
+  private _persist(write: () => void | Promise<void>): void {
+    const result = this._pending ? this._pending.then(write) : write();
+    if (!(result instanceof Promise)) return;
+    const pending: Promise<void> = result
+      .catch((e: unknown) => {
+        this._storeError ??= e;
+      })
+      .finally(() => {
+        if (this._pending === pending) this._pending = null;
+      });
+    this._pending = pending;
   }
 
   /** Number of cached credentials. */
@@ -0,0 +1,170 @@
+/**
+ * Persistence backends for CredentialCache.
+ *
+ * The cache itself stays an in-memory LRU; a store only mirrors its writes so
+ * credentials that were already paid for survive process restarts, serverless
+ * cold starts and one-shot CLI runs.
+ */
+
+import { homedir } from "node:os";
+import { join } from "node:path";
+import {
+  readJsonFile,
+  withFileLock,
+  writeJsonFileAtomic,
+} from "./file-utils.js";
+import { StoreReadError } from "./errors.js";
+import type { PaymentCredential } from "./types.js";
+
+/**
+ * Where `CredentialCache` persists credentials. Keys are opaque cache keys;
+ * implementations store and return them as-is.
+ */
+export interface CredentialStore {
+  /** All persisted entries, oldest first. Called once by the cache on construction. */
+  load(): Array<[string, PaymentCredential]>;
+  /**
+   * Persist (or replace) the credential under `key`. Writes may complete
+   * asynchronously; the cache runs them in order off the request path.
+   */
+  set(key: string, credential: PaymentCredential): void | Promise<void>;
+  /** Forget the credential under `key`, if any. */
+  delete(key: string): void | Promise<void>;
+  /** Forget every credential. */
+  clear(): void | Promise<void>;
+}
+
+/** Whether a credential has passed its expiry. */
+function isExpired(cred: PaymentCredential, now: number): boolean {
+  return cred.expiresAt !== null && now >= cred.expiresAt;
+}
+
+/** The entries that have not expired yet. */
+function liveEntries(
+  entries: Array<[string, PaymentCredential]>,
+): Array<[string, PaymentCredential]> {
+  const now = Date.now();
+  return entries.filter(([, cred]) => !isExpired(cred, now));
+}
+
+/** Default store: keeps nothing beyond the lifetime of the process. */
+export class MemoryCredentialStore implements CredentialStore {
+  private _entries = new Map<string, PaymentCredential>();
+
+  load(): Array<[string, PaymentCredential]> {
+    return liveEntries([...this._entries]);
+  }
+
+  set(key: string, credential: PaymentCredential): void {
+    this._entries.delete(key);
+    this._entries.set(key, credential);
+  }
+
+  delete(key: string): void {
+    this._entries.delete(key);
+  }
+
+  clear(): void {
+    this._entries.clear();
+  }
+}
+
+/** Default location of the JSON credential store, next to config.json. */
+export const DEFAULT_CREDENTIALS_PATH = join(
+  homedir(),
+  ".lightning-enable",
+  "credentials.json",
+);
+
+/**
+ * JSON-file credential store (default `~/.lightning-enable/credentials.json`).
+ *
+ * Every write takes a lock file, re-reads the file, applies the change,
+ * drops expired entries and atomically replaces it (temp file + rename), so
+ * a crash never leaves a half-written file and processes sharing the file do
+ * not drop each other's entries. Loading reads without the lock and skips
+ * expired entries; if it finds any, it rewrites the file without them in
+ * the background, under the lock. A file that exists but cannot be read or parsed throws
+ * `StoreReadError` and is never overwritten. The file holds live credentials
+ * — it is created with mode 0600 in a 0700 directory.
+ */
+export class FileCredentialStore implements CredentialStore {
+  readonly path: string;
+  /** Background rewrite dropping expired entries found by `load()`, if running. */
+  private _cleanup: Promise<void> | null = null;
+
+  constructor(path: string = DEFAULT_CREDENTIALS_PATH) {
+    this.path = path;
+  }
+
+  load(): Array<[string, PaymentCredential]> {
+    const entries = this._read();
+    const live = liveEntries(entries);
+    if (live.length < entries.length && this._cleanup === null) {
+      // load() is synchronous; the rewrite waits for the lock off this path.
+      this._cleanup = this._update((current) => current)
+        .catch((e: unknown) => {
+          // eslint-disable-next-line no-console
+          console.warn(
+            `FileCredentialStore failed to drop expired credentials: ${(e as Error).message}`,
+          );
+        })
+        .finally(() => {
+          this._cleanup = null;
+        });
+    }
+    return live;
+  }
+
+  async set(key: string, credential: PaymentCredential): Promise<void> {
+    await this._update((entries) => [
+      ...entries.filter(([k]) => k !== key),
+      [key, credential],
+    ]);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this._update((entries) => entries.filter(([k]) => k !== key));
+  }
+
+  async clear(): Promise<void> {
+    await this._update(() => []);
+  }
+
+  /** Rewrite the file under the lock with `change` applied to its live entries. */
+  private _update(
+    change: (
+      entries: Array<[string, PaymentCredential]>,
+    ) => Array<[string, PaymentCredential]>,
+  ): Promise<void> {
+    return withFileLock(this.path, () => {
+      writeJsonFileAtomic(this.path, {
+        version: 1,
+        credentials: change(liveEntries(this._read())),
+      });
+    });
+  }
+
+  /**
+   * Read the file; a missing file reads as empty.
+   *
+   * @throws {StoreReadError} If it exists but is not a credentials file.
+   */
+  private _read(): Array<[string, PaymentCredential]> {
+    const parsed = readJsonFile(this.path);
+    if (parsed === undefined) return [];
+    const entries = (parsed as { credentials?: unknown })?.credentials;
+    const valid =
+      Array.isArray(entries) &&
+      entries.every(
+        (e) =>
+          Array.isArray(e) &&
+          typeof e[0] === "string" &&
+          typeof e[1]?.preimage === "string",
+      );
+    if (!valid) {
+      throw new StoreReadError(this.path, "not a valid credentials file");
+    }
+    return entries as Array<[string, PaymentCredential]>;
+  }
+}
@@ -1,4 +1,5 @@
 import type { MissingAmountReason } from "./bolt11.js";
+import type { PaymentRecord, PriceRule } from "./types.js";
 
 /** Base exception for l402-requests. */
 export class L402Error extends Error {
@@ -39,6 +40,28 @@ export class InvoiceAmountUnknownError extends L402Error {
   }
 }
 
+/**
+ * An MPP challenge advertises a different price than its invoice encodes
+ * (e.g. `amount="10" currency="sat"` on a 10,000-sat invoice). The wallet
+ * would pay the invoice amount, so the advertised one cannot be trusted;
+ * refused before any funds move.
+ */
+export class AmountMismatchError extends L402Error {
+  constructor(
+    /** Advertised price as sent, e.g. `"10 sat"`. */
+    public readonly advertised: string,
+    /** Amount the invoice encodes, in millisatoshis. */
+    public readonly invoiceAmountMsat: number,
+    public readonly bolt11?: string,
+  ) {
+    super(
+      `Refusing to pay: challenge advertises ${advertised} but the invoice ` +
+        `is for ${invoiceAmountMsat / 1000} sats`,
+    );
+    this.name = "AmountMismatchError";
+  }
+}
+
 /** Payment would exceed configured budget limits. */
 export class BudgetExceededError extends L402Error {
   constructor(
@@ -46,15 +69,77 @@ export class BudgetExceededError extends L402Error {
     public readonly limitSats: number,
     public readonly currentSats: number,
     public readonly invoiceSats: number,
+    /** Set when the limit hit is one of this domain's `domainLimits`. */
+    public readonly domain?: string,
   ) {
     super(
-      `Budget exceeded: ${limitType} limit is ${limitSats} sats, ` +
-        `already spent ${currentSats} sats, invoice requires ${invoiceSats} sats`,
+      `Budget exceeded: ${limitType} limit${domain ? ` for ${domain}` : ""} ` +
+        `is ${limitSats} sats, already spent ${currentSats} sats, ` +
+        `invoice requires ${invoiceSats} sats`,
     );
     this.name = "BudgetExceededError";
   }
 }
 
+/**
+ * A `BudgetOptions.pricePolicy` rule refused the payment: the route is
+ * marked `neverPay`, or its price is above the rule's `maxSats`. Thrown
+ * BEFORE the wallet is called; no funds are spent.
+ */
+export class PriceRuleError extends L402Error {
+  constructor(
+    public readonly rule: PriceRule,
+    public readonly domain: string,
+    public readonly path: string,
+    public readonly method: string,
+    public readonly amountSats: number,
+  ) {
+    super(
+      `Refusing to pay ${amountSats} sats for ${method} ${domain}${path}: ` +
+        (rule.neverPay
+          ? "the route is marked never-pay"
+          : `the route's price limit is ${rule.maxSats} sats`),
+    );
+    this.name = "PriceRuleError";
+  }
+}
+
+/**
+ * An `L402Hooks.beforePayment` hook vetoed the payment. Thrown BEFORE the
+ * wallet is called; no funds are spent and nothing is recorded.
+ */
+export class PaymentVetoedError extends L402Error {
+  constructor(
+    public readonly domain: string,
+    public readonly amountSats: number,
+  ) {
+    super(
+      `Payment of ${amountSats} sats to ${domain} was vetoed by beforePayment`,
+    );
+    this.name = "PaymentVetoedError";
+  }
+}
+
+/**
+ * A payment that required approval was not approved: the provider denied it,
+ * did not answer within the timeout, or failed. Thrown BEFORE the wallet is
+ * called; no funds are spent and nothing is recorded against the budget.
+ */
+export class PaymentNotApprovedError extends L402Error {
+  constructor(
+    public readonly domain: string,
+    public readonly amountSats: number,
+    public readonly outcome: "denied" | "timeout" | "error",
+  ) {
+    super(
+      outcome === "timeout"
+        ? `Payment of ${amountSats} sats to ${domain} was not approved in time`
+        : `Payment of ${amountSats} sats to ${domain} was not approved (${outcome})`,
+    );
+    this.name = "PaymentNotApprovedError";
+  }
+}
+
 /** Lightning payment failed. */
 export class PaymentFailedError extends L402Error {
   constructor(
@@ -66,14 +151,112 @@ export class PaymentFailedError extends L402Error {
   }
 }
 
-/** Lightning invoice has expired. */
+/**
+ * A payment was cancelled — by an abort signal or a deadline — after the
+ * wallet had already sent it, so it may still settle. Check the wallet before
+ * paying again.
+ *
+ * `L402Client` counts the amount against the budget, as if paid, and logs the
+ * attempt with `outcomeUnknown: true`. An abort before the payment is sent
+ * throws the signal's reason instead, and nothing is paid.
+ */
+export class PaymentOutcomeUnknownError extends L402Error {
+  constructor(
+    public readonly bolt11?: string,
+    /** The abort signal's reason, e.g. a `TimeoutError` DOMException. */
+    public readonly reason?: unknown,
+  ) {
+    super(
+      "Payment outcome unknown: cancelled after the payment was sent; it " +
+        "may still settle",
+    );
+    this.name = "PaymentOutcomeUnknownError";
+  }
+}
+
+/**
+ * The wallet reported a payment, but the preimage it returned does not hash to
+ * the invoice's payment hash.
+ *
+ * Thrown by `L402Client` AFTER paying: the funds are gone, but the credential
+ * would never be accepted, so it is not cached and no retry is sent. The spend
+ * is still counted against the budget and logged with `unusable: true`. Points
+ * at a buggy or malicious wallet adapter rather than the server.
+ */
+export class PreimageMismatchError extends L402Error {
+  constructor(
+    public readonly preimage: string,
+    public readonly paymentHash: string,
+    public readonly bolt11?: string,
+  ) {
+    super(
+      `Wallet returned a preimage that does not match the invoice payment ` +
+        `hash ${paymentHash}. The invoice may have been paid, but the ` +
+        `credential is unusable.`,
+    );
+    this.name = "PreimageMismatchError";
+  }
+}
+
+/**
+ * Paid but access denied: the invoice was paid, yet the server refused the
+ * resulting credential (401 or 402 on the retry).
+ *
+ * Thrown by `L402Client` AFTER paying, once any fresh challenges allowed by
+ * `maxRepayments` were paid and refused too. The refused credential has been
+ * evicted from the cache. `record` is the spending-log entry for the last
+ * payment and `response` the server's final answer, so callers can tell this
+ * apart from an ordinary 402 and follow up with the operator.
+ */
+export class PaymentRejectedError extends L402Error {
+  constructor(
+    public readonly record: PaymentRecord,
+    public readonly response: Response,
+  ) {
+    super(
+      `Paid ${record.amountSats} sats to ${record.domain} but the server ` +
+        `rejected the credential (HTTP ${response.status})`,
+    );
+    this.name = "PaymentRejectedError";
+  }
+}
+
+/**
+ * Lightning invoice has expired, or would expire within the client's safety
+ * margin. Thrown by `L402Client` BEFORE attempting payment; no funds are spent.
+ */
 export class InvoiceExpiredError extends L402Error {
-  constructor(public readonly bolt11?: string) {
-    super("Invoice has expired");
+  constructor(
+    public readonly bolt11?: string,
+    /** When the invoice expires, seconds since the Unix epoch. */
+    public readonly expiresAt?: number,
+  ) {
+    super(
+      expiresAt === undefined
+        ? "Invoice has expired"
+        : `Invoice has expired or is about to (expires at ` +
+            `${new Date(expiresAt * 1000).toISOString()})`,
+    );
     this.name = "InvoiceExpiredError";
   }
 }
 
+/**
+ * A file-backed store exists but could not be read or parsed (corrupt JSON,
+ * permissions). Thrown rather than treating the file as empty: an empty
+ * budget history would let payments past the limits, and the next write
+ * would overwrite what the file held.
+ */
+export class StoreReadError extends L402Error {
+  constructor(
+    public readonly path: string,
+    public readonly reason: string,
+  ) {
+    super(`Cannot read ${path}: ${reason}`);
+    this.name = "StoreReadError";
+  }
+}
+
 /** Failed to parse L402 challenge from WWW-Authenticate header. */
 export class ChallengeParseError extends L402Error {
   constructor(
@@ -85,6 +268,28 @@ export class ChallengeParseError extends L402Error {
   }
 }
 
+/** Failed to decode a BOLT11 invoice (bad checksum, truncated field, ...). */
+export class InvoiceParseError extends L402Error {
+  constructor(
+    public readonly bolt11: string,
+    public readonly reason: string,
+  ) {
+    super(`Failed to parse BOLT11 invoice: ${reason}`);
+    this.name = "InvoiceParseError";
+  }
+}
+
+/** Failed to decode a macaroon (bad encoding, truncated field, ...). */
+export class MacaroonParseError extends L402Error {
+  constructor(
+    public readonly macaroon: string,
+    public readonly reason: string,
+  ) {
+    super(`Failed to parse macaroon: ${reason}`);
+    this.name = "MacaroonParseError";
+  }
+}
+
 /** No wallet configured or auto-detected. */
 export class NoWalletError extends L402Error {
   constructor() {
@@ -113,10 +318,33 @@ export class UnsupportedWalletError extends L402Error {
   }
 }
 
-/** Domain is not in the allowed domains list. */
+/**
+ * A request body that could not be replayed after paying (an already-read
+ * `Request` or a locked stream, or an unknown body type). Thrown before the
+ * request is sent, so nothing is paid for a retry that would go out broken.
+ */
+export class BodyNotReplayableError extends L402Error {
+  constructor(public readonly reason: string) {
+    super(`Request body cannot be replayed after a 402: ${reason}`);
+    this.name = "BodyNotReplayableError";
+  }
+}
+
+/**
+ * Domain matches a `deniedDomains` rule, or `allowedDomains` is set and it
+ * matches none of them.
+ */
 export class DomainNotAllowedError extends L402Error {
-  constructor(public readonly domain: string) {
-    super(`Domain not in allowed list: ${domain}`);
+  constructor(
+    public readonly domain: string,
+    /** The `deniedDomains` entry that matched; unset when no allow rule did. */
+    public readonly rule?: string,
+  ) {
+    super(
+      rule === undefined
+        ? `Domain not in allowed list: ${domain}`
+        : `Domain ${domain} matches deny rule "${rule}"`,
+    );
     this.name = "DomainNotAllowedError";
   }
 }
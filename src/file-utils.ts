@@ -0,0 +1,156 @@
+/**
+ * Small file helpers shared by the file-backed stores: strict JSON reads,
+ * atomic JSON writes and an advisory cross-process lock.
+ */
+
+import {
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs";
+import { link, open, readFile, rename, rm, stat } from "node:fs/promises";
+import { randomBytes } from "node:crypto";
+import { dirname } from "node:path";
+import { L402Error, StoreReadError } from "./errors.js";
+
+/** A lock file older than this is assumed to belong to a crashed process. */
+const STALE_LOCK_MS = 30_000;
+const LOCK_RETRY_MS = 10;
+
+/**
+ * Read and parse a JSON file. A missing file reads as undefined; anything
+ * else that stops it being read (bad JSON, permissions) throws, so callers
+ * never mistake a damaged file for an empty one and overwrite it.
+ *
+ * @throws {StoreReadError} If the file exists but cannot be read or parsed.
+ */
+export function readJsonFile(path: string): unknown {
+  let text: string;
+  try {
+    text = readFileSync(path, "utf-8");
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+    throw new StoreReadError(path, (e as Error).message);
+  }
+  try {
+    return JSON.parse(text);
+  } catch (e) {
+    throw new StoreReadError(path, (e as Error).message);
+  }
+}
+
+/**
+ * Atomically replace `path` with `value` as JSON: write a sibling temp file,
+ * then rename over the target, so readers never see a half-written file.
+ * Created with mode 0600 in a 0700 directory — these files hold credentials
+ * and spending history.
+ */
+export function writeJsonFileAtomic(path: string, value: unknown): void {
+  mkdirSync(dirname(path), { recursive: true, mode: 0o700 });
+  const tmp = uniqueSibling(path, "tmp");
+  try {
+    writeFileSync(tmp, JSON.stringify(value, null, 2), { mode: 0o600 });
+    renameSync(tmp, path);
+  } catch (e) {
+    rmSync(tmp, { force: true });
+    throw e;
+  }
+}
+
+/** A fresh name next to `path`, unique to this process and call. */
+function uniqueSibling(path: string, suffix: string): string {
+  return `${path}.${process.pid}.${randomBytes(4).toString("hex")}.${suffix}`;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Run `fn` while holding an exclusive lock on `path` (a `<path>.lock` file
+ * created with O_EXCL), so read-modify-write cycles from several processes
+ * don't interleave. Waiting never blocks the event loop.
+ *
+ * Stale locks from crashed processes are broken after 30s by renaming the
+ * lock aside and checking it is the file that was judged stale; if another
+ * waiter replaced it in between, the fresh lock is put back. The lock is
+ * released only if it still holds this call's token.
+ *
+ * @throws {L402Error} If the lock cannot be taken within `timeoutMs`.
+ */
+export async function withFileLock<T>(
+  path: string,
+  fn: () => T | Promise<T>,
+  timeoutMs: number = 5_000,
+): Promise<T> {
+  const lockPath = `${path}.lock`;
+  const token = randomBytes(8).toString("hex");
+  mkdirSync(dirname(path), { recursive: true, mode: 0o700 });
+
+  // Count attempts rather than comparing against Date.now(), which may be a
+  // frozen or mocked clock.
+  let attempts = Math.max(1, Math.ceil(timeoutMs / LOCK_RETRY_MS));
+  for (;;) {
+    try {
+      const handle = await open(lockPath, "wx", 0o600);
+      try {
+        await handle.writeFile(token);
+      } finally {
+        await handle.close();
+      }
+      break;
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code !== "EEXIST") throw e;
+    }
+
+    if (await breakStaleLock(lockPath)) continue;
+    if (--attempts <= 0) {
+      throw new L402Error(`Timed out waiting for lock on ${path}`);
+    }
+    await sleep(LOCK_RETRY_MS);
+  }
+
+  try {
+    return await fn();
+  } finally {
+    await releaseLock(lockPath, token);
+  }
+}
+
+/**
+ * Remove `lockPath` if it is stale. Returns true when the caller should try
+ * to take the lock again straight away (stale lock removed, or it vanished).
+ */
+async function breakStaleLock(lockPath: string): Promise<boolean> {
+  let seen;
+  try {
+    seen = await stat(lockPath);
+  } catch {
+    return true; // released between open and stat — try again
+  }
+  if (Date.now() - seen.mtimeMs <= STALE_LOCK_MS) return false;
+
+  // Compare-and-rename: only one waiter can move a given file aside. If the
+  // file moved is not the one judged stale, another waiter broke the lock
+  // and took a new one first; put that back rather than stealing it.
+  const aside = uniqueSibling(lockPath, "stale");
+  try {
+    await rename(lockPath, aside);
+  } catch {
+    return true; // another waiter moved it first
+  }
+  const moved = await stat(aside);
+  if (moved.ino !== seen.ino || moved.mtimeMs !== seen.mtimeMs) {
+    await link(aside, lockPath).catch(() => {});
+  }
+  await rm(aside, { force: true });
+  return true;
+}
+
+/** Remove the lock file if it still holds `token`. */
+async function releaseLock(lockPath: string, token: string): Promise<void> {
+  const held = await readFile(lockPath, "utf-8").catch(() => null);
+  if (held === token) await rm(lockPath, { force: true });
+}
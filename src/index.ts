@@ -27,15 +27,52 @@
 
 // Client
 export { L402Client } from "./client.js";
+export { createL402Fetch, installGlobalFetch } from "./l402-fetch.js";
+export type { InstalledGlobalFetch } from "./l402-fetch.js";
+export { createL402AxiosAdapter } from "./axios.js";
+export type {
+  AxiosRequestConfigLike,
+  AxiosResponseLike,
+  GenericAbortSignalLike,
+  L402AxiosAdapter,
+} from "./axios.js";
 
 // Budget
 export { BudgetController } from "./budget.js";
+export {
+  MemoryBudgetStore,
+  FileBudgetStore,
+  DEFAULT_BUDGET_PATH,
+} from "./budget-store.js";
+export type { BudgetStore, BudgetPayment } from "./budget-store.js";
 
 // Credential cache
 export { CredentialCache } from "./credential-cache.js";
+export {
+  MemoryCredentialStore,
+  FileCredentialStore,
+  DEFAULT_CREDENTIALS_PATH,
+} from "./credential-store.js";
+export type { CredentialStore } from "./credential-store.js";
+
+// Payment approval
+export {
+  ConsoleApprovalProvider,
+  FileApprovalProvider,
+  DEFAULT_APPROVALS_DIR,
+} from "./approval.js";
+export type {
+  ApprovalProvider,
+  ApprovalRequest,
+  ApprovalReason,
+  ConsoleApprovalOptions,
+  FileApprovalOptions,
+} from "./approval.js";
 
 // Spending log
 export { SpendingLog } from "./spending-log.js";
+export { JsonlFileSink, DEFAULT_SPENDING_LOG_PATH } from "./spending-sink.js";
+export type { SpendingLogSink } from "./spending-sink.js";
 
 // Challenge parsing
 export {
@@ -43,11 +80,37 @@ export {
   findL402Challenge,
   parseMppChallenge,
   findPaymentChallenge,
+  parseWwwAuthenticate,
+  parsePaymentReceipt,
 } from "./challenge.js";
+export type { AuthChallenge } from "./challenge.js";
 
 // BOLT11 parsing
-export { extractAmountSats, classifyMissingAmount } from "./bolt11.js";
-export type { MissingAmountReason } from "./bolt11.js";
+export {
+  extractAmountSats,
+  classifyMissingAmount,
+  decodeBolt11,
+  preimageMatchesPaymentHash,
+} from "./bolt11.js";
+export type {
+  MissingAmountReason,
+  DecodedInvoice,
+  RouteHintHop,
+} from "./bolt11.js";
+
+// Macaroon decoding
+export {
+  decodeMacaroon,
+  parseCaveat,
+  macaroonServices,
+  macaroonExpiry,
+} from "./macaroon.js";
+export type {
+  DecodedMacaroon,
+  L402Identifier,
+  ThirdPartyCaveat,
+  MacaroonService,
+} from "./macaroon.js";
 
 // Wallets
 export {
@@ -63,27 +126,53 @@ export {
   L402Error,
   BudgetExceededError,
   PaymentFailedError,
+  PaymentOutcomeUnknownError,
+  BodyNotReplayableError,
+  PreimageMismatchError,
+  PaymentNotApprovedError,
+  PaymentRejectedError,
+  PaymentVetoedError,
   InvoiceExpiredError,
   ChallengeParseError,
+  InvoiceParseError,
+  MacaroonParseError,
   NoWalletError,
   UnsupportedWalletError,
   InvoiceAmountUnknownError,
+  AmountMismatchError,
   DomainNotAllowedError,
+  PriceRuleError,
+  StoreReadError,
 } from "./errors.js";
 
 // Types
 export type {
   Wallet,
   L402Options,
+  L402Hooks,
+  ApprovalOptions,
+  PaymentEvent,
+  PaymentQuote,
   BudgetOptions,
+  DomainBudgetLimits,
+  PriceRule,
   CacheOptions,
+  PayInvoiceOptions,
+  FetchFunction,
+  WalletHttpOptions,
+  CredentialScope,
+  CredentialScopeTarget,
+  SpendingLogOptions,
   PaymentCredential,
   L402Credential,
   L402CredentialL402,
   L402CredentialMpp,
   L402Challenge,
   MppChallenge,
+  MppChallengeEcho,
+  PaymentReceipt,
   PaymentRecord,
+  PaymentRecordDetails,
 } from "./types.js";
 
 // ── Module-level convenience functions (lazy singleton) ──
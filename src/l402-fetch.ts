@@ -0,0 +1,60 @@
+/**
+ * `fetch`-shaped entry points for code that takes a fetch function but not
+ * an `L402Client` (SDKs, ky, graphql-request, ...).
+ */
+
+import { registerInstalledFetch } from "./base-fetch.js";
+import { L402Client } from "./client.js";
+import type { L402Options } from "./types.js";
+
+/**
+ * A function typed exactly like `globalThis.fetch` that pays L402 and MPP
+ * challenges, backed by `client` (or a new `L402Client` built from these
+ * options) with its budget, cache, wallet and spending log.
+ *
+ * @example
+ *   const openai = new OpenAI({ fetch: createL402Fetch({ wallet }) });
+ */
+export function createL402Fetch(
+  client: L402Client | L402Options = {},
+): typeof globalThis.fetch {
+  const l402 = client instanceof L402Client ? client : new L402Client(client);
+  return (input, init) => l402.fetch(input, init);
+}
+
+/** A paying fetch installed as `globalThis.fetch`. */
+export interface InstalledGlobalFetch {
+  /** The installed function. */
+  readonly fetch: typeof globalThis.fetch;
+  /**
+   * Put back the fetch that was global before. A no-op once uninstalled, or
+   * if something else has replaced `globalThis.fetch` since.
+   */
+  uninstall(): void;
+}
+
+/**
+ * Opt-in: replace `globalThis.fetch` with `createL402Fetch(client)` so any
+ * library that calls the global fetch pays for L402 endpoints unchanged.
+ * Scope it with try/finally:
+ *
+ *   const installed = installGlobalFetch({ wallet });
+ *   try { await sdk.run(); } finally { installed.uninstall(); }
+ *
+ * The client and wallets keep sending through the fetch that was replaced,
+ * never the paying one.
+ */
+export function installGlobalFetch(
+  client: L402Client | L402Options = {},
+): InstalledGlobalFetch {
+  const previous = globalThis.fetch;
+  const fetch = createL402Fetch(client);
+  registerInstalledFetch(fetch, previous);
+  globalThis.fetch = fetch;
+  return {
+    fetch,
+    uninstall() {
+      if (globalThis.fetch === fetch) globalThis.fetch = previous;
+    },
+  };
+}
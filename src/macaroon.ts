@@ -0,0 +1,394 @@
+/**
+ * Pure TypeScript macaroon decoding.
+ *
+ * Parses the V1 (libmacaroons packet) and V2 (binary field) serialisations
+ * L402 servers put in the `macaroon` challenge parameter, so callers can see
+ * what a credential grants before paying for it. Decoding only — the
+ * signature is returned but cannot be verified without the server's root key.
+ */
+
+import { MacaroonParseError } from "./errors.js";
+
+/** A third-party caveat: discharged by another service, not checked locally. */
+export interface ThirdPartyCaveat {
+  /** Caveat id as hex (opaque to everyone but the third party). */
+  id: string;
+  /** Hint where to get the discharge macaroon, or null if absent. */
+  location: string | null;
+}
+
+/**
+ * Identifier layout used by Lightning Labs' Aperture and compatible L402
+ * servers: uint16 version, 32-byte payment hash, 32-byte token id.
+ */
+export interface L402Identifier {
+  version: number;
+  /** Payment hash of the invoice this macaroon was minted with, as hex. */
+  paymentHash: string;
+  /** Random per-token id, as hex. */
+  tokenId: string;
+}
+
+/** A decoded macaroon. */
+export interface DecodedMacaroon {
+  /** Serialisation format the macaroon was decoded from. */
+  format: "v1" | "v2";
+  /** Location hint, or null if absent. */
+  location: string | null;
+  /** Raw identifier as hex. */
+  identifier: string;
+  /** The identifier decoded as an `L402Identifier`, or null if it isn't one. */
+  l402Identifier: L402Identifier | null;
+  /** First-party caveat conditions, e.g. `"services=weather:0"`, in order. */
+  caveats: string[];
+  thirdPartyCaveats: ThirdPartyCaveat[];
+  /** HMAC signature as hex. */
+  signature: string;
+}
+
+// Lightning Labs identifier: version(2) + payment hash(32) + token id(32).
+const L402_IDENTIFIER_LENGTH = 66;
+const L402_IDENTIFIER_VERSION = 0;
+
+// V2 binary field types.
+const FIELD_EOS = 0;
+const FIELD_LOCATION = 1;
+const FIELD_IDENTIFIER = 2;
+const FIELD_VID = 4;
+const FIELD_SIGNATURE = 6;
+
+const BASE64_RE = /^[A-Za-z0-9+/_-]+={0,2}$/;
+
+function bytesToHex(bytes: Uint8Array): string {
+  return Buffer.from(bytes).toString("hex");
+}
+
+function bytesToText(bytes: Uint8Array): string {
+  return new TextDecoder().decode(bytes);
+}
+
+/**
+ * Decode the Lightning Labs identifier layout, or null if `identifier` does
+ * not follow it.
+ */
+function decodeL402Identifier(identifier: Uint8Array): L402Identifier | null {
+  if (identifier.length !== L402_IDENTIFIER_LENGTH) return null;
+  const version = (identifier[0] << 8) | identifier[1];
+  if (version !== L402_IDENTIFIER_VERSION) return null;
+  return {
+    version,
+    paymentHash: bytesToHex(identifier.subarray(2, 34)),
+    tokenId: bytesToHex(identifier.subarray(34, 66)),
+  };
+}
+
+/** Sequential reader over the V2 binary format. */
+class V2Reader {
+  private _pos = 1; // skip the version byte
+
+  constructor(
+    private readonly _bytes: Uint8Array,
+    private readonly _raw: string,
+  ) {}
+
+  /** Read one field; EOS comes back with empty data. */
+  next(): { type: number; data: Uint8Array } {
+    if (this._pos >= this._bytes.length) {
+      throw new MacaroonParseError(this._raw, "unexpected end of data");
+    }
+    const type = this._bytes[this._pos++];
+    if (type === FIELD_EOS) return { type, data: new Uint8Array(0) };
+
+    // Field length is an unsigned LEB128 varint.
+    let length = 0;
+    let shift = 0;
+    for (;;) {
+      if (this._pos >= this._bytes.length || shift > 28) {
+        throw new MacaroonParseError(this._raw, "bad field length");
+      }
+      const byte = this._bytes[this._pos++];
+      length |= (byte & 0x7f) << shift;
+      if ((byte & 0x80) === 0) break;
+      shift += 7;
+    }
+    if (this._pos + length > this._bytes.length) {
+      throw new MacaroonParseError(this._raw, "field overruns data");
+    }
+    const data = this._bytes.subarray(this._pos, this._pos + length);
+    this._pos += length;
+    return { type, data };
+  }
+
+  /** Read the next field, requiring it to be of the given type. */
+  expect(type: number): Uint8Array {
+    const field = this.next();
+    if (field.type !== type) {
+      throw new MacaroonParseError(
+        this._raw,
+        `expected field type ${type}, got ${field.type}`,
+      );
+    }
+    return field.data;
+  }
+}
+
+function decodeV2(bytes: Uint8Array, raw: string): DecodedMacaroon {
+  const reader = new V2Reader(bytes, raw);
+
+  let location: string | null = null;
+  let field = reader.next();
+  if (field.type === FIELD_LOCATION) {
+    location = bytesToText(field.data);
+    field = reader.next();
+  }
+  if (field.type !== FIELD_IDENTIFIER) {
+    throw new MacaroonParseError(raw, "missing identifier");
+  }
+  const identifier = field.data;
+  reader.expect(FIELD_EOS);
+
+  const caveats: string[] = [];
+  const thirdPartyCaveats: ThirdPartyCaveat[] = [];
+  for (;;) {
+    field = reader.next();
+    if (field.type === FIELD_EOS) break; // end of caveat section
+
+    let caveatLocation: string | null = null;
+    if (field.type === FIELD_LOCATION) {
+      caveatLocation = bytesToText(field.data);
+      field = reader.next();
+    }
+    if (field.type !== FIELD_IDENTIFIER) {
+      throw new MacaroonParseError(raw, "caveat missing identifier");
+    }
+    const caveatId = field.data;
+
+    field = reader.next();
+    if (field.type === FIELD_VID) {
+      thirdPartyCaveats.push({
+        id: bytesToHex(caveatId),
+        location: caveatLocation,
+      });
+      reader.expect(FIELD_EOS);
+    } else if (field.type === FIELD_EOS) {
+      caveats.push(bytesToText(caveatId));
+    } else {
+      throw new MacaroonParseError(raw, `unexpected caveat field ${field.type}`);
+    }
+  }
+
+  const signature = reader.expect(FIELD_SIGNATURE);
+
+  return {
+    format: "v2",
+    location,
+    identifier: bytesToHex(identifier),
+    l402Identifier: decodeL402Identifier(identifier),
+    caveats,
+    thirdPartyCaveats,
+    signature: bytesToHex(signature),
+  };
+}
+
+function decodeV1(bytes: Uint8Array, raw: string): DecodedMacaroon {
+  let location: string | null = null;
+  let identifier: Uint8Array | null = null;
+  let signature: Uint8Array | null = null;
+  const caveats: string[] = [];
+  const thirdPartyCaveats: ThirdPartyCaveat[] = [];
+
+  // A caveat id only becomes first- or third-party once we know whether a
+  // `vid` follows it, so hold the latest one until the next `cid`/`signature`.
+  let pending: { id: Uint8Array; thirdParty: boolean; location: string | null } | null =
+    null;
+  const flush = () => {
+    if (pending === null) return;
+    if (pending.thirdParty) {
+      thirdPartyCaveats.push({
+        id: bytesToHex(pending.id),
+        location: pending.location,
+      });
+    } else {
+      caveats.push(bytesToText(pending.id));
+    }
+    pending = null;
+  };
+
+  // Each packet: 4 hex digits of total length (header included), then
+  // "<key> <value>\n".
+  let pos = 0;
+  while (pos < bytes.length) {
+    const header = bytesToText(bytes.subarray(pos, pos + 4));
+    const size = /^[0-9a-f]{4}$/i.test(header) ? parseInt(header, 16) : NaN;
+    if (!(size > 5) || pos + size > bytes.length) {
+      throw new MacaroonParseError(raw, "bad packet header");
+    }
+    const packet = bytes.subarray(pos + 4, pos + size);
+    pos += size;
+
+    if (packet[packet.length - 1] !== 0x0a) {
+      throw new MacaroonParseError(raw, "packet missing newline");
+    }
+    const space = packet.indexOf(0x20);
+    if (space < 0) {
+      throw new MacaroonParseError(raw, "packet missing key separator");
+    }
+    const key = bytesToText(packet.subarray(0, space));
+    const value = packet.subarray(space + 1, packet.length - 1);
+
+    switch (key) {
+      case "location":
+        location = bytesToText(value);
+        break;
+      case "identifier":
+        identifier = value;
+        break;
+      case "cid":
+        flush();
+        pending = { id: value, thirdParty: false, location: null };
+        break;
+      case "vid":
+        if (pending === null) {
+          throw new MacaroonParseError(raw, "vid without cid");
+        }
+        pending.thirdParty = true;
+        break;
+      case "cl":
+        if (pending === null) {
+          throw new MacaroonParseError(raw, "cl without cid");
+        }
+        pending.location = bytesToText(value);
+        break;
+      case "signature":
+        flush();
+        signature = value;
+        break;
+      default:
+        throw new MacaroonParseError(raw, `unknown packet "${key}"`);
+    }
+  }
+
+  if (identifier === null) {
+    throw new MacaroonParseError(raw, "missing identifier");
+  }
+  if (signature === null) {
+    throw new MacaroonParseError(raw, "missing signature");
+  }
+
+  return {
+    format: "v1",
+    location,
+    identifier: bytesToHex(identifier),
+    l402Identifier: decodeL402Identifier(identifier),
+    caveats,
+    thirdPartyCaveats,
+    signature: bytesToHex(signature),
+  };
+}
+
+/**
+ * Decode a base64 or base64url macaroon (padding optional), as carried in an
+ * L402 challenge or credential.
+ *
+ * @throws {MacaroonParseError} If the string is not a V1 or V2 binary macaroon.
+ */
+export function decodeMacaroon(macaroon: string): DecodedMacaroon {
+  const raw = (macaroon ?? "").trim();
+  if (!raw) {
+    throw new MacaroonParseError(macaroon ?? "", "empty macaroon");
+  }
+  if (!BASE64_RE.test(raw)) {
+    throw new MacaroonParseError(raw, "not base64 or base64url");
+  }
+
+  // Node's base64 decoder accepts both alphabets and missing padding.
+  const bytes = new Uint8Array(Buffer.from(raw, "base64"));
+  if (bytes.length === 0) {
+    throw new MacaroonParseError(raw, "empty macaroon");
+  }
+
+  // V2 starts with a 0x02 version byte; V1 with a hex packet length.
+  if (bytes[0] === 2) return decodeV2(bytes, raw);
+  return decodeV1(bytes, raw);
+}
+
+/**
+ * Split a first-party caveat condition into key and value at the first "=",
+ * trimming whitespace around both (`"account = 42"` → `account`, `42`).
+ * Returns null for conditions without "=".
+ */
+export function parseCaveat(
+  condition: string,
+): { key: string; value: string } | null {
+  const eq = condition.indexOf("=");
+  if (eq < 0) return null;
+  return {
+    key: condition.slice(0, eq).trim(),
+    value: condition.slice(eq + 1).trim(),
+  };
+}
+
+/** A service granted by an Aperture-style `services=name:tier,...` caveat. */
+export interface MacaroonService {
+  name: string;
+  /** Pricing tier; 0 when the caveat gives none. */
+  tier: number;
+}
+
+/**
+ * Services a macaroon is restricted to, from its `services` caveats. Empty
+ * when there is no such caveat (i.e. the macaroon is not service-scoped).
+ * With several `services` caveats all must hold, so only services named in
+ * every one of them are returned.
+ */
+export function macaroonServices(mac: DecodedMacaroon): MacaroonService[] {
+  let services: MacaroonService[] | null = null;
+  for (const condition of mac.caveats) {
+    const caveat = parseCaveat(condition);
+    if (caveat?.key !== "services") continue;
+
+    const listed = caveat.value
+      .split(",")
+      .map((entry) => entry.trim())
+      .filter(Boolean)
+      .map((entry) => {
+        const [name, tier] = entry.split(":");
+        return { name: name.trim(), tier: Number(tier ?? 0) || 0 };
+      });
+    services =
+      services === null
+        ? listed
+        : services.filter((s) => listed.some((l) => l.name === s.name));
+  }
+  return services ?? [];
+}
+
+/**
+ * When a macaroon stops being valid, in milliseconds since the Unix epoch, or
+ * null if it carries no expiry caveat. Understands Aperture's
+ * `valid_until` / `<service>_valid_until` (Unix seconds or an ISO date) and
+ * the libmacaroons `time < <ISO date>` convention. The earliest one wins,
+ * since every caveat must hold.
+ */
+export function macaroonExpiry(mac: DecodedMacaroon): number | null {
+  let earliest: number | null = null;
+  for (const condition of mac.caveats) {
+    let raw: string | null = null;
+    const caveat = parseCaveat(condition);
+    if (
+      caveat !== null &&
+      (caveat.key === "valid_until" || caveat.key.endsWith("_valid_until"))
+    ) {
+      raw = caveat.value;
+    } else {
+      const time = /^time\s*<\s*(.+)$/.exec(condition.trim());
+      if (time) raw = time[1];
+    }
+    if (raw === null) continue;
+
+    const ms = /^\d+$/.test(raw) ? Number(raw) * 1000 : Date.parse(raw);
+    if (Number.isNaN(ms)) continue;
+    earliest = earliest === null ? ms : Math.min(earliest, ms);
+  }
+  return earliest;
+}
@@ -2,10 +2,42 @@
  * Payment history tracker for L402 spending introspection.
  */
 
-import type { PaymentRecord } from "./types.js";
+import {
+  DEFAULT_SPENDING_LOG_PATH,
+  JsonlFileSink,
+  type SpendingLogSink,
+} from "./spending-sink.js";
+import type {
+  PaymentReceipt,
+  PaymentRecord,
+  PaymentRecordDetails,
+  SpendingLogOptions,
+} from "./types.js";
 
 export class SpendingLog {
-  private _records: PaymentRecord[] = [];
+  private _records: PaymentRecord[];
+  private _sinks: SpendingLogSink[];
+
+  constructor(options: SpendingLogOptions = {}) {
+    this._records = [...(options.records ?? [])];
+    this._sinks = [...(options.sinks ?? [])];
+  }
+
+  /**
+   * Rebuild a log from a JSONL file written by `JsonlFileSink`, and keep
+   * appending new records to it. Extra `options.sinks` receive new records
+   * only; `options.records` is ignored in favour of the file's contents.
+   */
+  static load(
+    path: string = DEFAULT_SPENDING_LOG_PATH,
+    options: SpendingLogOptions = {},
+  ): SpendingLog {
+    const file = new JsonlFileSink(path);
+    return new SpendingLog({
+      records: file.read(),
+      sinks: [file, ...(options.sinks ?? [])],
+    });
+  }
 
   /** Record a payment attempt. */
   record(
@@ -15,6 +47,7 @@ export class SpendingLog {
     preimage: string,
     success: boolean = true,
     macaroon: string = "",
+    details: PaymentRecordDetails = {},
   ): PaymentRecord {
     const entry: PaymentRecord = {
       domain,
@@ -24,11 +57,42 @@ export class SpendingLog {
       timestamp: Date.now(),
       success,
       macaroon,
+      ...details,
     };
     this._records.push(entry);
+    for (const sink of this._sinks) {
+      // The payment has already happened by the time it is recorded; a sink
+      // failure must not turn it into an error and lose the credential.
+      try {
+        sink.write(entry);
+      } catch (e) {
+        // eslint-disable-next-line no-console
+        console.warn(
+          `SpendingLog sink failed to write a payment record: ${(e as Error).message}`,
+        );
+      }
+    }
     return entry;
   }
 
+  /**
+   * Attach the server's `Payment-Receipt` to a payment already recorded, and
+   * pass it on to sinks that accept receipts.
+   */
+  attachReceipt(record: PaymentRecord, receipt: PaymentReceipt): void {
+    record.receipt = receipt;
+    for (const sink of this._sinks) {
+      try {
+        sink.writeReceipt?.(record, receipt);
+      } catch (e) {
+        // eslint-disable-next-line no-console
+        console.warn(
+          `SpendingLog sink failed to write a payment receipt: ${(e as Error).message}`,
+        );
+      }
+    }
+  }
+
   /** All recorded payments. */
   get records(): PaymentRecord[] {
     return [...this._records];
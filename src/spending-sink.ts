@@ -0,0 +1,129 @@
+/**
+ * Durable destinations for SpendingLog records.
+ *
+ * The log keeps its in-memory history for introspection; sinks receive each
+ * record as it is written so the history outlives the process.
+ */
+
+import { appendFileSync, mkdirSync, readFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+import { StoreReadError } from "./errors.js";
+import type { PaymentReceipt, PaymentRecord } from "./types.js";
+
+/** Receives every `PaymentRecord` the moment `SpendingLog.record` creates it. */
+export interface SpendingLogSink {
+  write(record: PaymentRecord): void;
+  /**
+   * Receives a `Payment-Receipt` that arrived after its payment was written
+   * (`record` already carries it). Optional: sinks without it miss receipts.
+   */
+  writeReceipt?(record: PaymentRecord, receipt: PaymentReceipt): void;
+}
+
+/** A JSONL line attaching a receipt to the record it follows. */
+interface ReceiptLine {
+  receiptFor: { timestamp: number; preimage: string };
+  receipt: PaymentReceipt;
+}
+
+/** Default location of the JSONL spending log, next to config.json. */
+export const DEFAULT_SPENDING_LOG_PATH = join(
+  homedir(),
+  ".lightning-enable",
+  "spending.jsonl",
+);
+
+/**
+ * Append-only JSONL file sink (default `~/.lightning-enable/spending.jsonl`):
+ * one JSON-encoded record per line, never rewritten. Each record is a single
+ * O_APPEND write, so several processes can share the file. It holds
+ * preimages and macaroons — created with mode 0600 in a 0700 directory.
+ */
+export class JsonlFileSink implements SpendingLogSink {
+  readonly path: string;
+
+  constructor(path: string = DEFAULT_SPENDING_LOG_PATH) {
+    this.path = path;
+  }
+
+  write(record: PaymentRecord): void {
+    this._append(record);
+  }
+
+  /** Appends a receipt line, merged into its record by `read()`. */
+  writeReceipt(record: PaymentRecord, receipt: PaymentReceipt): void {
+    const line: ReceiptLine = {
+      receiptFor: { timestamp: record.timestamp, preimage: record.preimage },
+      receipt,
+    };
+    this._append(line);
+  }
+
+  private _append(line: PaymentRecord | ReceiptLine): void {
+    mkdirSync(dirname(this.path), { recursive: true, mode: 0o700 });
+    appendFileSync(this.path, JSON.stringify(line) + "\n", { mode: 0o600 });
+  }
+
+  /**
+   * Every record in the file, oldest first, with any receipt lines merged in.
+   * A missing file reads as empty; unparseable lines (e.g. one torn by a
+   * crash mid-write) are skipped.
+   *
+   * @throws {StoreReadError} If the file exists but cannot be read.
+   */
+  read(): PaymentRecord[] {
+    let text: string;
+    try {
+      text = readFileSync(this.path, "utf-8");
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw new StoreReadError(this.path, (e as Error).message);
+    }
+
+    const records: PaymentRecord[] = [];
+    for (const line of text.split("\n")) {
+      if (!line.trim()) continue;
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(line);
+      } catch {
+        continue;
+      }
+      if (isPaymentRecord(parsed)) {
+        records.push(parsed);
+      } else if (isReceiptLine(parsed)) {
+        const { timestamp, preimage } = parsed.receiptFor;
+        for (let i = records.length - 1; i >= 0; i--) {
+          if (records[i].timestamp === timestamp && records[i].preimage === preimage) {
+            records[i].receipt = parsed.receipt;
+            break;
+          }
+        }
+      }
+    }
+    return records;
+  }
+}
+
+function isPaymentRecord(value: unknown): value is PaymentRecord {
+  const r = value as Partial<PaymentRecord> | null;
+  return (
+    typeof r?.domain === "string" &&
+    typeof r.path === "string" &&
+    typeof r.amountSats === "number" &&
+    typeof r.preimage === "string" &&
+    typeof r.timestamp === "number" &&
+    typeof r.success === "boolean"
+  );
+}
+
+function isReceiptLine(value: unknown): value is ReceiptLine {
+  const r = value as Partial<ReceiptLine> | null;
+  return (
+    typeof r?.receiptFor?.timestamp === "number" &&
+    typeof r.receiptFor.preimage === "string" &&
+    typeof r.receipt === "object" &&
+    r.receipt !== null
+  );
+}
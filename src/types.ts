@@ -23,8 +23,37 @@ export interface Wallet {
    * method but `L402Client` will not call it. If you call this directly (not
    * through `L402Client`), be prepared to catch `PaymentFailedError` from
    * adapters that pay successfully but can't surface the preimage (OpenNode).
+   *
+   * Adapters must honour `options.signal`: aborted before the payment is
+   * sent, throw the signal's reason and send nothing; aborted after, stop
+   * waiting and throw `PaymentOutcomeUnknownError`.
+   */
+  payInvoice(bolt11: string, options?: PayInvoiceOptions): Promise<string>;
+}
+
+/**
+ * A `fetch()` implementation: `globalThis.fetch`, undici's `fetch` with a
+ * dispatcher, a proxy-aware wrapper, or an in-process fake for tests.
+ */
+export type FetchFunction = (
+  input: string | URL | Request,
+  init?: RequestInit,
+) => Promise<Response>;
+
+/** Transport options for the HTTP wallet adapters (LND, Strike, OpenNode). */
+export interface WalletHttpOptions {
+  /**
+   * Sends the wallet's API requests (default: `globalThis.fetch`, looked up
+   * per request). E.g. an undici `fetch` with an `Agent` that trusts LND's
+   * self-signed certificate.
    */
-  payInvoice(bolt11: string): Promise<string>;
+  fetch?: FetchFunction;
+}
+
+/** Options for `Wallet.payInvoice`. */
+export interface PayInvoiceOptions {
+  /** Cancels the payment, or the wait for its outcome once sent. */
+  signal?: AbortSignal;
 }
 
 /** Budget configuration options. */
@@ -35,16 +64,130 @@ export interface BudgetOptions {
   maxSatsPerHour?: number;
   /** Maximum sats in a sliding 24-hour window (default: 50000). */
   maxSatsPerDay?: number;
-  /** If set, only pay invoices from these domains. */
+  /**
+   * If set, only pay invoices from these domains. Entries are hostnames or
+   * wildcards: `*.example.com` matches every subdomain of example.com (not
+   * example.com itself), `*` matches any host. Case-insensitive; IDNs match
+   * in either Unicode or punycode form.
+   */
   allowedDomains?: Set<string>;
+  /**
+   * Never pay invoices from these domains, in the same syntax as
+   * `allowedDomains`. Checked first: a domain matching both is refused.
+   */
+  deniedDomains?: Set<string>;
+  /**
+   * Limits for particular domains, keyed by hostname (compared like
+   * `allowedDomains`: case-insensitive, IDNs in either form), e.g. `{ "premium.example": { maxSatsPerRequest: 2000 } }`.
+   */
+  domainLimits?: Record<string, DomainBudgetLimits>;
+  /**
+   * What each route should cost. The first rule matching a request's
+   * domain, path and method sets its price ceiling (on top of the other
+   * limits) or refuses it outright; requests no rule matches are unaffected.
+   */
+  pricePolicy?: PriceRule[];
+  /**
+   * Where recorded payments are kept (default: in memory, per process). Use
+   * `FileBudgetStore` so limits survive restarts and are shared by every
+   * process pointed at the same file.
+   */
+  store?: import("./budget-store.js").BudgetStore;
+}
+
+/**
+ * One domain's limits (see `BudgetOptions.domainLimits`). Its hourly and
+ * daily caps apply on top of the global ones, so one provider cannot use up
+ * the whole budget.
+ */
+export interface DomainBudgetLimits {
+  /** Replaces the global `maxSatsPerRequest` for this domain (higher or lower). */
+  maxSatsPerRequest?: number;
+  /** Cap on this domain's spend in a sliding 1-hour window. */
+  maxSatsPerHour?: number;
+  /** Cap on this domain's spend in a sliding 24-hour window. */
+  maxSatsPerDay?: number;
+}
+
+/**
+ * One rule of `BudgetOptions.pricePolicy`. Omitted fields match anything.
+ *
+ * @example
+ *   { domain: "api.example.com", path: "/v1/search", method: "GET", maxSats: 10 }
+ *   { domain: "api.example.com", path: "/admin/**", neverPay: true }
+ */
+export interface PriceRule {
+  /** Hostname, compared like `allowedDomains` entries (no wildcards). */
+  domain?: string;
+  /**
+   * Path glob: `*` matches within one segment, `**` across segments, `?`
+   * one character. E.g. `/v1/*`, `/files/**`.
+   */
+  path?: string;
+  /** HTTP method(s), case-insensitive. */
+  method?: string | string[];
+  /** Most the route may cost, in sats. */
+  maxSats?: number;
+  /** Refuse every payment for the route. */
+  neverPay?: boolean;
 }
 
 /** Credential cache configuration. */
 export interface CacheOptions {
   /** Maximum cached credentials (default: 256). */
   maxSize?: number;
-  /** Default TTL in milliseconds (default: 3600000 = 1 hour). */
+  /**
+   * Default TTL in milliseconds (default: 3600000 = 1 hour). Used only when
+   * the macaroon carries no expiry caveat (e.g. `valid_until`) of its own.
+   */
   defaultTtlMs?: number;
+  /**
+   * Where credentials are persisted (default: in memory only). Use
+   * `FileCredentialStore` to keep paid-for credentials across restarts.
+   */
+  store?: import("./credential-store.js").CredentialStore;
+  /**
+   * Which requests share a credential (default: `"path-prefix"`). Whatever
+   * the scope, credentials never cross origins (scheme, host and port).
+   */
+  scope?: CredentialScope;
+  /**
+   * Per-domain `scope` overrides, keyed by hostname (case-insensitive), e.g.
+   * `{ "api.example.com": "exact-path" }`.
+   */
+  domainScopes?: Record<string, CredentialScope>;
+}
+
+/**
+ * How `CredentialCache` groups requests under one credential, within an
+ * origin:
+ * - `"path-prefix"` — the first two path segments, so `/api/v1/foo` and
+ *   `/api/v1/bar` share one (default)
+ * - `"origin"` — one credential for the whole origin
+ * - `"exact-path"` — one per path
+ * - `"realm"` — one per MPP challenge `realm`; credentials without a realm
+ *   fall back to `"path-prefix"`
+ * - a function returning the scope for a request; requests with the same
+ *   result share a credential
+ */
+export type CredentialScope =
+  | "path-prefix"
+  | "origin"
+  | "exact-path"
+  | "realm"
+  | ((target: CredentialScopeTarget) => string);
+
+/** What a `CredentialScope` function scopes. */
+export interface CredentialScopeTarget {
+  /** e.g. `"https://api.example.com:8443"` */
+  origin: string;
+  hostname: string;
+  path: string;
+  /**
+   * MPP `realm` of the challenge being paid or looked up, or the one last
+   * paid for this exact path; undefined before any is known.
+   */
+  realm?: string;
 }
 
 /** A cached credential obtained via L402 (macaroon + preimage). */
@@ -54,6 +197,11 @@ export interface L402CredentialL402 {
   preimage: string;
   createdAt: number;
   expiresAt: number | null;
+  /**
+   * Services named in the macaroon's `services` caveat, if any. The credential
+   * is also reused for paths on the same domain that name one of them.
+   */
+  services?: string[];
 }
 
 /** A cached credential obtained via MPP Payment scheme (preimage only). */
@@ -63,8 +211,16 @@ export interface L402CredentialMpp {
   preimage: string;
   createdAt: number;
   expiresAt: number | null;
+  /** Challenge params echoed back in the `Payment` credential. */
+  challenge?: MppChallengeEcho;
 }
 
+/** The MPP challenge params a `Payment` credential must echo. */
+export type MppChallengeEcho = Pick<
+  MppChallenge,
+  "id" | "realm" | "request" | "expires"
+>;
+
 /** A cached payment credential — discriminated union of L402 and MPP. */
 export type PaymentCredential = L402CredentialL402 | L402CredentialMpp;
 
@@ -93,6 +249,37 @@ export interface PaymentRecord {
    * Optional for backward compatibility with records created before v0.4.
    */
   macaroon?: string;
+  /**
+   * Set when the wallet reported success but its preimage does not match the
+   * invoice's payment hash: the sats were spent (`success` stays true) but no
+   * usable credential came of it.
+   */
+  unusable?: boolean;
+  /** The server's `Payment-Receipt` for an MPP payment, when it sent one. */
+  receipt?: PaymentReceipt;
+  /**
+   * Set when the payment was cancelled after the wallet sent it, so it may
+   * or may not have settled (`success` is false, but the amount counts
+   * against the budget). See `PaymentOutcomeUnknownError`.
+   */
+  outcomeUnknown?: boolean;
+}
+
+/** Optional fields of a `PaymentRecord`, passed through `SpendingLog.record`. */
+export type PaymentRecordDetails = Pick<
+  PaymentRecord,
+  "unusable" | "receipt" | "outcomeUnknown"
+>;
+
+/** Spending log configuration options. */
+export interface SpendingLogOptions {
+  /**
+   * Destinations each new record is streamed to as it is written, e.g. a
+   * `JsonlFileSink` for a history that survives restarts.
+   */
+  sinks?: import("./spending-sink.js").SpendingLogSink[];
+  /** Records from an earlier run to start from. */
+  records?: PaymentRecord[];
 }
 
 /** Parsed L402 challenge from a WWW-Authenticate header. */
@@ -107,6 +294,127 @@ export interface MppChallenge {
   invoice: string;
   amount?: string;
   realm?: string;
+  /** Challenge id; echoed in the credential so the server can match it. */
+  id?: string;
+  /** When the server stops accepting this challenge (RFC 3339), as sent. */
+  expires?: string;
+  /** Unit of `amount`, e.g. `sat`, `msat` or `BTC`. */
+  currency?: string;
+  description?: string;
+  /** The base64url `request` param, verbatim (echoed in the credential). */
+  request?: string;
+  /** `request` decoded from base64url JSON, when it decodes to an object. */
+  requestData?: Record<string, unknown>;
+}
+
+/**
+ * A decoded `Payment-Receipt` response header: the server's proof of
+ * settlement for an MPP payment. Typically carries `status`, `method`,
+ * `timestamp` and `reference`; other fields are kept as sent.
+ */
+export interface PaymentReceipt {
+  status?: string;
+  method?: string;
+  timestamp?: string;
+  reference?: string;
+  [field: string]: unknown;
+}
+
+/** What paying for a request would cost, from `L402Client.quote()`. */
+export interface PaymentQuote {
+  /** Payment scheme of the challenge: `l402` or MPP `payment`. */
+  scheme: "l402" | "payment";
+  /** The parsed 402 challenge. */
+  challenge: L402Challenge | MppChallenge;
+  /** Invoice amount in satoshis, or null when the invoice encodes none. */
+  amountSats: number | null;
+  /**
+   * When the invoice expires (seconds since the Unix epoch), or null if the
+   * invoice doesn't decode.
+   */
+  expiresAt: number | null;
+  /** Invoice description, when it has one. */
+  description: string | null;
+  /** Whether `fetch()` would get past the amount and budget checks right now. */
+  withinBudget: boolean;
+  /**
+   * The error `fetch()` would throw instead of paying (`BudgetExceededError`,
+   * `DomainNotAllowedError`, `PriceRuleError`, `InvoiceAmountUnknownError`,
+   * `AmountMismatchError`), when `withinBudget` is false.
+   */
+  refusal?: import("./errors.js").L402Error;
+}
+
+/** When and how `L402Client` asks for approval before paying. */
+export interface ApprovalOptions {
+  /** Who decides, e.g. `ConsoleApprovalProvider` or `FileApprovalProvider`. */
+  provider: import("./approval.js").ApprovalProvider;
+  /**
+   * Payments above this many sats need approval. Unset, every payment needs
+   * it — unless `newDomains` is set, in which case only new domains do.
+   */
+  aboveSats?: number;
+  /**
+   * Also require approval for the first payment to a domain, i.e. one with no
+   * successful payment in the client's spending log (default: false).
+   */
+  newDomains?: boolean;
+  /** How long to wait for a decision before denying, in ms (default: 60000). */
+  timeoutMs?: number;
+}
+
+/** What `L402Hooks` callbacks are told about the payment in progress. */
+export interface PaymentEvent {
+  /** The parsed 402 challenge being paid. */
+  challenge: L402Challenge | MppChallenge;
+  /** Invoice amount in satoshis. */
+  amountSats: number;
+  domain: string;
+  path: string;
+  /** The wallet paying the invoice. */
+  wallet: Wallet;
+}
+
+/**
+ * Callbacks into `L402Client.fetch`'s payment flow, for logging, metrics and
+ * policy. Each may be async and is awaited; an error thrown from a hook
+ * propagates out of `fetch()`.
+ */
+export interface L402Hooks {
+  /**
+   * A challenge the client is about to pay: it parsed, is priced, and passed
+   * the expiry and budget checks. Challenges refused before this point
+   * surface as the error `fetch()` throws instead.
+   */
+  onChallenge?(event: PaymentEvent): void | Promise<void>;
+  /**
+   * Last word before the wallet is called. Return `false` to veto: `fetch()`
+   * throws `PaymentVetoedError` and nothing is paid or recorded.
+   */
+  beforePayment?(event: PaymentEvent): boolean | void | Promise<boolean | void>;
+  /**
+   * The invoice was paid and the credential cached; `record` is its log
+   * entry. Called before the retry, so it fires even if the retry fails; an
+   * MPP receipt is attached to `record` later (see `onRetryResponse`).
+   */
+  onPaymentSucceeded?(
+    event: PaymentEvent,
+    record: PaymentRecord,
+  ): void | Promise<void>;
+  /**
+   * The wallet failed to pay (`PaymentFailedError`), or paid but returned an
+   * unusable preimage (`PreimageMismatchError`). Called before the error is
+   * thrown.
+   */
+  onPaymentFailed?(event: PaymentEvent, error: Error): void | Promise<void>;
+  /**
+   * The server's answer to the retry with the new credential. Clone it
+   * before reading the body — the caller gets this same response.
+   */
+  onRetryResponse?(
+    event: PaymentEvent,
+    response: Response,
+  ): void | Promise<void>;
 }
 
 /** Options for the L402Client. */
@@ -120,6 +428,47 @@ export interface L402Options {
   budget?: import("./budget.js").BudgetController | null;
   /** Credential cache. Defaults to a new CredentialCache. */
   credentialCache?: import("./credential-cache.js").CredentialCache;
+  /**
+   * Spending log. Defaults to a new in-memory SpendingLog; pass
+   * `SpendingLog.load()` to keep a full history across restarts.
+   */
+  spendingLog?: import("./spending-log.js").SpendingLog;
   /** Additional options passed to fetch(). */
   fetchOptions?: RequestInit;
+  /**
+   * Sends every HTTP request the client makes (default: `globalThis.fetch`,
+   * looked up per request). Route through an undici dispatcher, a proxy or
+   * an mTLS agent, or pass a fake in tests. The wallet has its own option
+   * (e.g. `new LndWallet(host, macaroon, { fetch })`).
+   */
+  fetch?: FetchFunction;
+  /**
+   * Refuse invoices that expire within this many seconds (default: 30), so a
+   * payment is never started on an invoice that lapses mid-route.
+   */
+  invoiceExpiryMarginSeconds?: number;
+  /**
+   * On an expired (or nearly expired) invoice, re-request the resource once
+   * for a fresh challenge before giving up with `InvoiceExpiredError`
+   * (default: true).
+   */
+  refreshExpiredInvoices?: boolean;
+  /**
+   * When the server refuses a credential that was just paid for (401/402 on
+   * the retry), pay up to this many fresh challenges before giving up with
+   * `PaymentRejectedError` (default: 0 — never pay twice for one request).
+   */
+  maxRepayments?: number;
+  /** Callbacks to observe or veto payments (see `L402Hooks`). */
+  hooks?: L402Hooks;
+  /** Require an external approval before some or all payments. */
+  approval?: ApprovalOptions;
+  /**
+   * Deadline in milliseconds for each `fetch()` call as a whole — first
+   * request, approval, payment and retry — up to the final response's
+   * headers. Combined with any `init.signal`. Past the deadline the call
+   * rejects with a `TimeoutError`, or `PaymentOutcomeUnknownError` if the
+   * payment was already sent. Default: none.
+   */
+  deadlineMs?: number;
 }
@@ -0,0 +1,29 @@
+/**
+ * Abort handling shared by the wallet adapters.
+ *
+ * Before a payment is sent, an abort simply stops it: adapters call
+ * `signal.throwIfAborted()` and nothing moves. Once it is sent, an abort can
+ * only stop the wait for the outcome.
+ */
+
+import { PaymentOutcomeUnknownError } from "../errors.js";
+
+/**
+ * Run the steps of a payment from the moment it is sent. If `signal` has
+ * aborted by the time they fail, the failure is the abort's doing and the
+ * payment may still settle: throws `PaymentOutcomeUnknownError` instead.
+ */
+export async function afterDispatch<T>(
+  bolt11: string,
+  signal: AbortSignal | undefined,
+  steps: () => Promise<T>,
+): Promise<T> {
+  try {
+    return await steps();
+  } catch (e) {
+    if (signal?.aborted) {
+      throw new PaymentOutcomeUnknownError(bolt11, signal.reason);
+    }
+    throw e;
+  }
+}
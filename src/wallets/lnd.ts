@@ -4,25 +4,48 @@
  * Uses /v2/router/send for synchronous payment with streaming JSON response.
  */
 
-import type { Wallet } from "../types.js";
+import type {
+  FetchFunction,
+  PayInvoiceOptions,
+  Wallet,
+  WalletHttpOptions,
+} from "../types.js";
+import { baseFetch } from "../base-fetch.js";
 import { PaymentFailedError } from "../errors.js";
+import { afterDispatch } from "./abort.js";
 
 export class LndWallet implements Wallet {
   readonly supportsPreimage = true;
 
   private _host: string;
   private _macaroonHex: string;
+  private _fetch: FetchFunction | undefined;
 
-  constructor(host: string, macaroonHex: string) {
+  constructor(
+    host: string,
+    macaroonHex: string,
+    options: WalletHttpOptions = {},
+  ) {
     this._host = host.replace(/\/+$/, "");
     this._macaroonHex = macaroonHex;
+    this._fetch = options.fetch;
   }
 
   /**
    * Pay via LND's /v2/router/send (streaming JSON response).
    * Extracts preimage from the final SUCCEEDED update.
    */
-  async payInvoice(bolt11: string): Promise<string> {
+  async payInvoice(
+    bolt11: string,
+    options: PayInvoiceOptions = {},
+  ): Promise<string> {
+    const { signal } = options;
+    signal?.throwIfAborted();
+    return afterDispatch(bolt11, signal, () => this._send(bolt11, signal));
+  }
+
+  /** POST the payment and read the router stream to its final update. */
+  private async _send(bolt11: string, signal?: AbortSignal): Promise<string> {
     const headers: Record<string, string> = {
       "Grpc-Metadata-macaroon": this._macaroonHex,
       "Content-Type": "application/json",
@@ -30,7 +53,7 @@ export class LndWallet implements Wallet {
 
     let response: Response;
     try {
-      response = await fetch(`${this._host}/v2/router/send`, {
+      response = await this._http(`${this._host}/v2/router/send`, {
         method: "POST",
         headers,
         body: JSON.stringify({
@@ -38,6 +61,7 @@ export class LndWallet implements Wallet {
           timeout_seconds: 60,
           fee_limit_sat: 100,
         }),
+        signal,
       });
     } catch (e) {
       throw new PaymentFailedError(`LND connection error: ${e}`, bolt11);
@@ -82,16 +106,13 @@ export class LndWallet implements Wallet {
           bolt11,
         );
       }
-      // LND returns base64-encoded preimage, convert to hex
-      try {
-        const bytes = new Uint8Array(Buffer.from(preimage, "base64"));
-        return Array.from(bytes)
-          .map((b) => b.toString(16).padStart(2, "0"))
-          .join("");
-      } catch {
-        // Already hex
-        return preimage;
+      // LND's REST gateway returns bytes fields base64-encoded; some proxies
+      // hand back hex instead. Buffer.from(..., "base64") never throws, so
+      // detect hex explicitly — 32 bytes of base64 is 44 chars, never 64 hex.
+      if (/^[0-9a-fA-F]{64}$/.test(preimage)) {
+        return preimage.toLowerCase();
       }
+      return Buffer.from(preimage, "base64").toString("hex");
     } else if (status === "FAILED") {
       const reason = (result["failure_reason"] as string) ?? "unknown";
       throw new PaymentFailedError(`LND payment failed: ${reason}`, bolt11);
@@ -102,4 +123,9 @@ export class LndWallet implements Wallet {
       );
     }
   }
+
+  /** Send an API request with the configured fetch. */
+  private _http(url: string, init: RequestInit): Promise<Response> {
+    return (this._fetch ?? baseFetch())(url, init);
+  }
 }
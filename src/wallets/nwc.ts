@@ -29,8 +29,8 @@ import {
   randomBytes,
   timingSafeEqual,
 } from "node:crypto";
-import type { Wallet } from "../types.js";
-import { PaymentFailedError } from "../errors.js";
+import type { PayInvoiceOptions, Wallet } from "../types.js";
+import { PaymentFailedError, PaymentOutcomeUnknownError } from "../errors.js";
 
 /* eslint-disable @typescript-eslint/no-explicit-any */
 
@@ -568,8 +568,16 @@ export class NwcWallet implements Wallet {
    * main export, and v3.x reintroduced it with an incompatible API (the NWC
    * tests fail against both). A bare `npm install @noble/secp256k1` now pulls
    * v3 and breaks NWC, hence the explicit `^1.7.1`.
+   *
+   * `options.signal` cancels the payment until the request event is sent to
+   * the relay; after that it only stops the wait for the wallet's reply.
    */
-  async payInvoice(bolt11: string): Promise<string> {
+  async payInvoice(
+    bolt11: string,
+    options: PayInvoiceOptions = {},
+  ): Promise<string> {
+    const { signal } = options;
+    signal?.throwIfAborted();
     // Lazy-import optional dependencies. The `as string` cast on the module
     // specifier forces a dynamic import (bundlers leave it alone), which
     // means TypeScript can't infer the return type, so we cast the resolved
@@ -661,13 +669,31 @@ export class NwcWallet implements Wallet {
     );
     event["sig"] = bytesToHex(sig);
 
+    // Last chance to cancel: nothing has reached the wallet yet.
+    signal?.throwIfAborted();
+
     // Connect to relay and send.
     return new Promise<string>((resolve, reject) => {
       const ws = new WebSocketCtor(this._relay);
       const subId = bytesToHex(
         globalThis.crypto.getRandomValues(new Uint8Array(8)),
       );
+      let sent = false;
+      const settle = (): void => {
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+      };
+      const onAbort = (): void => {
+        settle();
+        ws.close();
+        reject(
+          sent
+            ? new PaymentOutcomeUnknownError(bolt11, signal!.reason)
+            : signal!.reason,
+        );
+      };
       const timer = setTimeout(() => {
+        settle();
         ws.close();
         // Name the most likely cause: an outbound encryption mismatch. A wallet
         // that doesn't speak the scheme we used silently drops the request, so
@@ -687,6 +713,7 @@ export class NwcWallet implements Wallet {
           ),
         );
       }, this._timeout);
+      signal?.addEventListener("abort", onAbort);
 
       ws.on("open", () => {
         // Subscribe with an `#e` request-id filter so we only receive the
@@ -705,6 +732,7 @@ export class NwcWallet implements Wallet {
           ]),
         );
         ws.send(JSON.stringify(["EVENT", event]));
+        sent = true;
       });
 
       ws.on("message", async (data: any) => {
@@ -735,7 +763,7 @@ export class NwcWallet implements Wallet {
           );
           const result = JSON.parse(decrypted) as Record<string, unknown>;
 
-          clearTimeout(timer);
+          settle();
           ws.close();
 
           if (result["error"]) {
@@ -769,7 +797,7 @@ export class NwcWallet implements Wallet {
       });
 
       ws.on("error", (err: Error) => {
-        clearTimeout(timer);
+        settle();
         reject(
           new PaymentFailedError(`NWC WebSocket error: ${err.message}`, bolt11),
         );
@@ -6,20 +6,33 @@
  * Strike, LND, or compatible NWC wallets.
  */
 
-import type { Wallet } from "../types.js";
+import type {
+  FetchFunction,
+  PayInvoiceOptions,
+  Wallet,
+  WalletHttpOptions,
+} from "../types.js";
+import { baseFetch } from "../base-fetch.js";
 import { PaymentFailedError } from "../errors.js";
+import { afterDispatch } from "./abort.js";
 
 export class OpenNodeWallet implements Wallet {
   readonly supportsPreimage = false;
 
   private _apiKey: string;
   private _baseUrl: string;
+  private _fetch: FetchFunction | undefined;
 
   static readonly BASE_URL = "https://api.opennode.com";
 
-  constructor(apiKey: string, baseUrl?: string) {
+  constructor(
+    apiKey: string,
+    baseUrl?: string,
+    options: WalletHttpOptions = {},
+  ) {
     this._apiKey = apiKey;
     this._baseUrl = (baseUrl ?? OpenNodeWallet.BASE_URL).replace(/\/+$/, "");
+    this._fetch = options.fetch;
   }
 
   /**
@@ -28,10 +41,23 @@ export class OpenNodeWallet implements Wallet {
    * Warning: OpenNode typically does not return the preimage, which
    * means L402 token construction will fail.
    */
-  async payInvoice(bolt11: string): Promise<string> {
+  async payInvoice(
+    bolt11: string,
+    options: PayInvoiceOptions = {},
+  ): Promise<string> {
+    const { signal } = options;
+    signal?.throwIfAborted();
+    return afterDispatch(bolt11, signal, () => this._withdraw(bolt11, signal));
+  }
+
+  /** Create the withdrawal and read the preimage from its response. */
+  private async _withdraw(
+    bolt11: string,
+    signal?: AbortSignal,
+  ): Promise<string> {
     let resp: Response;
     try {
-      resp = await fetch(`${this._baseUrl}/v2/withdrawals`, {
+      resp = await this._http(`${this._baseUrl}/v2/withdrawals`, {
         method: "POST",
         headers: {
           Authorization: this._apiKey,
@@ -41,6 +67,7 @@ export class OpenNodeWallet implements Wallet {
           type: "ln",
           address: bolt11,
         }),
+        signal,
       });
     } catch (e) {
       throw new PaymentFailedError(
@@ -74,4 +101,9 @@ export class OpenNodeWallet implements Wallet {
 
     return preimage;
   }
+
+  /** Send an API request with the configured fetch. */
+  private _http(url: string, init: RequestInit): Promise<Response> {
+    return (this._fetch ?? baseFetch())(url, init);
+  }
 }
@@ -4,20 +4,33 @@
  * Quote + execute flow with preimage extraction.
  */
 
-import type { Wallet } from "../types.js";
+import type {
+  FetchFunction,
+  PayInvoiceOptions,
+  Wallet,
+  WalletHttpOptions,
+} from "../types.js";
+import { baseFetch } from "../base-fetch.js";
 import { PaymentFailedError } from "../errors.js";
+import { afterDispatch } from "./abort.js";
 
 export class StrikeWallet implements Wallet {
   readonly supportsPreimage = true;
 
   private _apiKey: string;
   private _baseUrl: string;
+  private _fetch: FetchFunction | undefined;
 
   static readonly BASE_URL = "https://api.strike.me";
 
-  constructor(apiKey: string, baseUrl?: string) {
+  constructor(
+    apiKey: string,
+    baseUrl?: string,
+    options: WalletHttpOptions = {},
+  ) {
     this._apiKey = apiKey;
     this._baseUrl = (baseUrl ?? StrikeWallet.BASE_URL).replace(/\/+$/, "");
+    this._fetch = options.fetch;
   }
 
   /**
@@ -26,8 +39,16 @@ export class StrikeWallet implements Wallet {
    * 1. POST /v1/payment-quotes/lightning — create quote from bolt11
    * 2. PATCH /v1/payment-quotes/{id}/execute — execute the payment
    * 3. Extract preimage from completed payment
+   *
+   * Aborting during the quote step sends nothing; the payment is sent by
+   * the execute call.
    */
-  async payInvoice(bolt11: string): Promise<string> {
+  async payInvoice(
+    bolt11: string,
+    options: PayInvoiceOptions = {},
+  ): Promise<string> {
+    const { signal } = options;
+    signal?.throwIfAborted();
     const headers = {
       Authorization: `Bearer ${this._apiKey}`,
       "Content-Type": "application/json",
@@ -36,7 +57,7 @@ export class StrikeWallet implements Wallet {
     // Step 1: Create payment quote
     let quoteResp: Response;
     try {
-      quoteResp = await fetch(
+      quoteResp = await this._http(
         `${this._baseUrl}/v1/payment-quotes/lightning`,
         {
           method: "POST",
@@ -45,9 +66,11 @@ export class StrikeWallet implements Wallet {
             lnInvoice: bolt11,
             sourceCurrency: "BTC",
           }),
+          signal,
         },
       );
     } catch (e) {
+      signal?.throwIfAborted();
       throw new PaymentFailedError(
         `Strike connection error: ${e}`,
         bolt11,
@@ -71,12 +94,25 @@ export class StrikeWallet implements Wallet {
       );
     }
 
+    signal?.throwIfAborted();
+    return afterDispatch(bolt11, signal, () =>
+      this._execute(bolt11, headers, quoteId, signal),
+    );
+  }
+
+  /** Execute a quote and extract the preimage of the completed payment. */
+  private async _execute(
+    bolt11: string,
+    headers: Record<string, string>,
+    quoteId: string,
+    signal?: AbortSignal,
+  ): Promise<string> {
     // Step 2: Execute payment
     let execResp: Response;
     try {
-      execResp = await fetch(
+      execResp = await this._http(
         `${this._baseUrl}/v1/payment-quotes/${quoteId}/execute`,
-        { method: "PATCH", headers },
+        { method: "PATCH", headers, signal },
       );
     } catch (e) {
       throw new PaymentFailedError(
@@ -108,7 +144,7 @@ export class StrikeWallet implements Wallet {
         (payment["paymentId"] as string | undefined) ??
         (payment["paymentQuoteId"] as string | undefined);
       if (paymentId) {
-        preimage = await this._fetchPreimage(headers, paymentId);
+        preimage = await this._fetchPreimage(headers, paymentId, signal);
       }
     }
 
@@ -126,11 +162,12 @@ export class StrikeWallet implements Wallet {
   private async _fetchPreimage(
     headers: Record<string, string>,
     paymentId: string,
+    signal?: AbortSignal,
   ): Promise<string | undefined> {
     try {
-      const resp = await fetch(
+      const resp = await this._http(
         `${this._baseUrl}/v1/payments/${paymentId}`,
-        { headers },
+        { headers, signal },
       );
       if (resp.status === 200) {
         const data = (await resp.json()) as Record<string, unknown>;
@@ -145,4 +182,9 @@ export class StrikeWallet implements Wallet {
     }
     return undefined;
   }
+
+  /** Send an API request with the configured fetch. */
+  private _http(url: string, init: RequestInit): Promise<Response> {
+    return (this._fetch ?? baseFetch())(url, init);
+  }
 }
@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import {
+  existsSync,
+  mkdtempSync,
+  readdirSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { PassThrough } from "node:stream";
+import {
+  ConsoleApprovalProvider,
+  FileApprovalProvider,
+  type ApprovalRequest,
+} from "../src/approval.js";
+
+const REQUEST: ApprovalRequest = {
+  domain: "api.example.com",
+  path: "/data",
+  amountSats: 500,
+  challenge: { macaroon: "mac123", invoice: "lnbc5u1ptest" },
+  reasons: ["above_threshold"],
+};
+
+describe("ConsoleApprovalProvider", () => {
+  function consoleProvider() {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    let prompt = "";
+    output.on("data", (chunk) => (prompt += chunk));
+    const provider = new ConsoleApprovalProvider({ input, output });
+    return { provider, input, prompt: () => prompt };
+  }
+
+  it("approves on 'y' and shows the payment in the prompt", async () => {
+    const { provider, input, prompt } = consoleProvider();
+    const decision = provider.requestApproval(
+      REQUEST,
+      new AbortController().signal,
+    );
+    input.write("y\n");
+
+    expect(await decision).toBe(true);
+    expect(prompt()).toContain("Pay 500 sats to api.example.com/data");
+  });
+
+  it("denies on anything else", async () => {
+    const { provider, input } = consoleProvider();
+    const decision = provider.requestApproval(
+      REQUEST,
+      new AbortController().signal,
+    );
+    input.write("sure\n");
+
+    expect(await decision).toBe(false);
+  });
+
+  it("denies when the client stops waiting", async () => {
+    const { provider } = consoleProvider();
+    const controller = new AbortController();
+    const decision = provider.requestApproval(REQUEST, controller.signal);
+    controller.abort();
+
+    expect(await decision).toBe(false);
+  });
+});
+
+describe("FileApprovalProvider", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "l402-approvals-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  /** Wait for the provider to queue a request and return its id. */
+  async function queuedId(): Promise<string> {
+    for (;;) {
+      const file = readdirSync(dir).find((f) => f.endsWith(".request.json"));
+      if (file) return file.replace(".request.json", "");
+      await new Promise((r) => setTimeout(r, 5));
+    }
+  }
+
+  it("approves when a decision file says so, and cleans up", async () => {
+    const provider = new FileApprovalProvider(dir, { pollIntervalMs: 5 });
+    const decision = provider.requestApproval(
+      REQUEST,
+      new AbortController().signal,
+    );
+
+    const id = await queuedId();
+    writeFileSync(join(dir, `${id}.decision.json`), '{"approved": true}');
+
+    expect(await decision).toBe(true);
+    expect(readdirSync(dir)).toEqual([]);
+  });
+
+  it("denies on any other decision", async () => {
+    const provider = new FileApprovalProvider(dir, { pollIntervalMs: 5 });
+    const decision = provider.requestApproval(
+      REQUEST,
+      new AbortController().signal,
+    );
+
+    const id = await queuedId();
+    writeFileSync(join(dir, `${id}.decision.json`), '{"approved": "yes"}');
+
+    expect(await decision).toBe(false);
+  });
+
+  it("withdraws the request when the client stops waiting", async () => {
+    const provider = new FileApprovalProvider(dir, { pollIntervalMs: 5 });
+    const controller = new AbortController();
+    const decision = provider.requestApproval(REQUEST, controller.signal);
+
+    const id = await queuedId();
+    controller.abort();
+
+    expect(await decision).toBe(false);
+    expect(existsSync(join(dir, `${id}.request.json`))).toBe(false);
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, it, expect, vi } from "vitest";
+import { Readable } from "node:stream";
+import { L402Client } from "../src/client.js";
+import { createL402AxiosAdapter } from "../src/axios.js";
+import { BudgetController } from "../src/budget.js";
+import { BudgetExceededError } from "../src/errors.js";
+import { PREIMAGE, mockL402Server, mockWallet } from "./helpers/l402-server.js";
+
+/** axios's default `validateStatus`. */
+const validateStatus = (status: number): boolean => status >= 200 && status < 300;
+
+describe("createL402AxiosAdapter", () => {
+  it("pays a 402 and replays the request", async () => {
+    const server = mockL402Server();
+    const wallet = mockWallet();
+    const adapter = createL402AxiosAdapter({ wallet, fetch: server });
+
+    const response = await adapter({
+      baseURL: "https://api.example.com/v1/",
+      url: "/items",
+      method: "post",
+      params: { q: "sats", tags: ["a", "b"], skip: undefined },
+      headers: { "Content-Type": "application/json", "X-Trace": 7 },
+      data: '{"name":"x"}',
+      validateStatus,
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.data).toBe('{"result":"ok"}');
+    expect(response.headers["content-type"]).toBe("application/json");
+    expect(wallet.payInvoice).toHaveBeenCalledTimes(1);
+
+    const [url, init] = server.mock.calls[1] as [string, RequestInit];
+    expect(url).toBe(
+      "https://api.example.com/v1/items?q=sats&tags%5B%5D=a&tags%5B%5D=b",
+    );
+    expect(init.method).toBe("POST");
+    expect(init.body).toBe('{"name":"x"}');
+    const headers = new Headers(init.headers);
+    expect(headers.get("x-trace")).toBe("7");
+    expect(headers.get("authorization")).toBe(`L402 mac123:${PREIMAGE}`);
+  });
+
+  it("shares budget, credentials and spending log with the client's fetch", async () => {
+    const server = mockL402Server();
+    const client = new L402Client({ wallet: mockWallet(), fetch: server });
+    const adapter = createL402AxiosAdapter(client);
+
+    await adapter({ url: "https://api.example.com/data", method: "get" });
+    const response = await client.fetch("https://api.example.com/data");
+
+    expect(response.status).toBe(200);
+    expect(client.spendingLog.length).toBe(1);
+    // 402 + paid retry from axios, then one request with the cached credential.
+    expect(server).toHaveBeenCalledTimes(3);
+  });
+
+  it("rejects with the client's payment errors", async () => {
+    const adapter = createL402AxiosAdapter({
+      wallet: mockWallet(),
+      fetch: mockL402Server("10u"),
+      budget: new BudgetController({ maxSatsPerRequest: 100 }),
+    });
+
+    await expect(
+      adapter({ url: "https://api.example.com/data" }),
+    ).rejects.toThrow(BudgetExceededError);
+  });
+
+  it("rejects statuses validateStatus refuses with an axios-shaped error", async () => {
+    const server = vi.fn().mockResolvedValue(new Response("gone", { status: 404 }));
+    const adapter = createL402AxiosAdapter({ wallet: mockWallet(), fetch: server });
+    const config = { url: "https://api.example.com/data", validateStatus };
+
+    const error = await adapter(config).catch((e: unknown) => e);
+
+    expect(error).toMatchObject({
+      isAxiosError: true,
+      code: "ERR_BAD_REQUEST",
+      config,
+      response: { status: 404, data: "gone" },
+    });
+  });
+
+  it("reads the body as the requested responseType", async () => {
+    const server = vi.fn().mockResolvedValue(new Response("bytes"));
+    const adapter = createL402AxiosAdapter({ wallet: mockWallet(), fetch: server });
+
+    const response = await adapter({
+      url: "https://api.example.com/file",
+      responseType: "arraybuffer",
+    });
+
+    expect(new TextDecoder().decode(response.data as ArrayBuffer)).toBe("bytes");
+  });
+
+  it("returns a Node Readable for responseType stream", async () => {
+    const server = vi.fn().mockResolvedValue(new Response("streamed bytes"));
+    const adapter = createL402AxiosAdapter({ wallet: mockWallet(), fetch: server });
+
+    const response = await adapter({
+      url: "https://api.example.com/file",
+      responseType: "stream",
+    });
+
+    expect(response.data).toBeInstanceOf(Readable);
+    const chunks: Buffer[] = [];
+    for await (const chunk of response.data as Readable) chunks.push(chunk);
+    expect(Buffer.concat(chunks).toString()).toBe("streamed bytes");
+  });
+
+  it("aborts the request when the axios timeout elapses", async () => {
+    const server = vi.fn().mockImplementation(
+      (_url: string, init?: RequestInit) =>
+        new Promise((_resolve, reject) => {
+          init?.signal?.addEventListener("abort", () =>
+            reject(init.signal?.reason),
+          );
+        }),
+    );
+    const adapter = createL402AxiosAdapter({ wallet: mockWallet(), fetch: server });
+
+    const config = { url: "https://api.example.com/slow", timeout: 10 };
+    await expect(adapter(config)).rejects.toMatchObject({
+      name: "AxiosError",
+      isAxiosError: true,
+      code: "ECONNABORTED",
+      message: "timeout of 10ms exceeded",
+      config,
+    });
+    await expect(
+      adapter({ ...config, transitional: { clarifyTimeoutError: true } }),
+    ).rejects.toMatchObject({ code: "ETIMEDOUT" });
+  });
+
+  it("honours a non-native abort signal", async () => {
+    const server = vi.fn().mockImplementation(
+      (_url: string, init?: RequestInit) =>
+        new Promise((_resolve, reject) => {
+          init?.signal?.addEventListener("abort", () =>
+            reject(init.signal?.reason),
+          );
+        }),
+    );
+    const adapter = createL402AxiosAdapter({ wallet: mockWallet(), fetch: server });
+    // Shaped like an AbortSignal polyfill, not an instance of the native one.
+    const listeners: Array<() => void> = [];
+    const signal = {
+      aborted: false,
+      reason: new Error("cancelled by caller"),
+      addEventListener: (_type: "abort", listener: () => void) => {
+        listeners.push(listener);
+      },
+      removeEventListener: vi.fn(),
+    };
+
+    const pending = adapter({ url: "https://api.example.com/slow", signal });
+    await vi.waitFor(() => expect(server).toHaveBeenCalled());
+    signal.aborted = true;
+    listeners.forEach((listener) => listener());
+
+    await expect(pending).rejects.toThrow("cancelled by caller");
+    expect(signal.removeEventListener).toHaveBeenCalled();
+  });
+});
@@ -1,5 +1,22 @@
 import { describe, it, expect } from "vitest";
-import { classifyMissingAmount, extractAmountSats } from "../src/bolt11.js";
+import {
+  classifyMissingAmount,
+  decodeBolt11,
+  extractAmountSats,
+  preimageMatchesPaymentHash,
+} from "../src/bolt11.js";
+import { InvoiceParseError } from "../src/errors.js";
+import { encodeTestInvoice } from "./helpers/invoice.js";
+
+// Signed with a throwaway key by an independent encoder (bitcoinjs `bolt11`):
+// 2500 sats, 600s expiry, description, payment secret, one route hint,
+// min_final_cltv 40 and feature bits 9/14/15.
+const MAINNET_INVOICE =
+  "lnbc25u1pvjluezpp54y3u9s8ylemsv8l3ewyzzu0klhujvuvmkl6llchq23vy8rzjsf0qsp5zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zygsdqufs6rqv3qw3jhxapqd9h8vmmfvdjsxqzjccqzpgrzjq20q82gphp2nflc7jtzrcazrra7wwgzxqc8u7754cdlpfrmccae92qgzqvzq2ps8pqqqqqqpqqqqq9qqqv9qypssqkjgt49kvz2mssvjvd4yge4frundqd6v6f82lxp2s6g6v4zgmdnsj8qhtmnnvxdsp7xyutacykyujhykftnhrv850pu4cpttdlf8w75qqr4lv5j";
+
+// Testnet, 1500 msat, description hash and an explicit payee (`n`) field.
+const TESTNET_INVOICE =
+  "lntb15n1pj48ugqpp5qqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqypqhp58yjmdan79s6qqdhdzgynm4zwqd5d7xmw5fk98klysy043l2ahrqsnp4q0n326hr8v9zprg8gsvezcch06gfaqqhde2aj730yg0durunfhv66xqrrsscqpfj5rjfykhepzac2des47hf3em5zuy0rm3pjmh545ueuuymvjdqpz3n2efrdczylrvj45z3558x96mtraxd88w64utt3sv3804g8a7qusp04a732";
 
 describe("extractAmountSats", () => {
   it("parses micro-BTC (u) amounts", () => {
@@ -123,3 +140,152 @@ describe("classifyMissingAmount", () => {
     expect(classifyMissingAmount("LNBC1PXXXXXX")).toBe("no-amount-encoded");
   });
 });
+
+describe("decodeBolt11", () => {
+  it("decodes every tagged field of a signed invoice", () => {
+    const inv = decodeBolt11(MAINNET_INVOICE);
+    expect(inv.network).toBe("bc");
+    expect(inv.amountMsat).toBe(2_500_000);
+    expect(inv.amountSats).toBe(2500);
+    expect(inv.timestamp).toBe(1496314658);
+    expect(inv.expiry).toBe(600);
+    expect(inv.expiresAt).toBe(1496314658 + 600);
+    expect(inv.paymentHash).toBe(
+      "a923c2c0e4fe77061ff1cb882171f6fdf926719bb7f5ffe2e05458438c52825e",
+    );
+    expect(inv.paymentSecret).toBe("11".repeat(32));
+    expect(inv.description).toBe("L402 test invoice");
+    expect(inv.descriptionHash).toBeNull();
+    expect(inv.payeeNodeKey).toBeNull();
+    expect(inv.minFinalCltvExpiry).toBe(40);
+    expect(inv.routeHints).toEqual([
+      [
+        {
+          pubkey:
+            "029e03a901b85534ff1e92c43c74431f7ce72046060fcf7a95c37e148f78c77255",
+          shortChannelId: "0102030405060708",
+          feeBaseMsat: 1,
+          feeProportionalMillionths: 20,
+          cltvExpiryDelta: 3,
+        },
+      ],
+    ]);
+    expect(inv.features).toEqual([9, 14, 15]);
+    expect(inv.signature).toHaveLength(128);
+    expect(inv.recoveryFlag).toBe(0);
+  });
+
+  it("decodes description hash, payee and testnet sub-sat amounts", () => {
+    const inv = decodeBolt11(TESTNET_INVOICE);
+    expect(inv.network).toBe("tb");
+    expect(inv.amountMsat).toBe(1500);
+    expect(inv.amountSats).toBe(1);
+    expect(inv.description).toBeNull();
+    expect(inv.descriptionHash).toBe(
+      "3925b6f67e2c340036ed12093dd44e0368df1b6ea26c53dbe4811f58fd5db8c1",
+    );
+    expect(inv.payeeNodeKey).toBe(
+      "03e7156ae33b0a208d0744199163177e909e80176e55d97a2f221ede0f934dd9ad",
+    );
+    expect(inv.expiry).toBe(3600);
+    expect(inv.minFinalCltvExpiry).toBe(9);
+    expect(inv.recoveryFlag).toBe(1);
+  });
+
+  it("applies spec defaults for omitted expiry and min_final_cltv", () => {
+    const inv = decodeBolt11(
+      encodeTestInvoice({ amount: "10u", timestamp: 1_700_000_000 }),
+    );
+    expect(inv.expiry).toBe(3600);
+    expect(inv.expiresAt).toBe(1_700_003_600);
+    expect(inv.minFinalCltvExpiry).toBe(18);
+    expect(inv.routeHints).toEqual([]);
+    expect(inv.features).toEqual([]);
+  });
+
+  it("decodes an amountless invoice with a null amount", () => {
+    const inv = decodeBolt11(encodeTestInvoice());
+    expect(inv.amountMsat).toBeNull();
+    expect(inv.amountSats).toBeNull();
+  });
+
+  it("accepts an all-uppercase invoice", () => {
+    expect(decodeBolt11(MAINNET_INVOICE.toUpperCase()).amountSats).toBe(2500);
+  });
+
+  it("rejects a corrupted checksum", () => {
+    const corrupted = MAINNET_INVOICE.slice(0, -1) + "q";
+    expect(() => decodeBolt11(corrupted)).toThrow(InvoiceParseError);
+    expect(() => decodeBolt11(corrupted)).toThrow("invalid checksum");
+  });
+
+  it("rejects a tampered amount (the HRP is covered by the checksum)", () => {
+    const tampered = MAINNET_INVOICE.replace("lnbc25u1", "lnbc15u1");
+    expect(() => decodeBolt11(tampered)).toThrow("invalid checksum");
+  });
+
+  it("rejects mixed case, junk and empty input", () => {
+    const mixed = "LNBC" + MAINNET_INVOICE.slice(4);
+    expect(() => decodeBolt11(mixed)).toThrow("mixed-case");
+    expect(() => decodeBolt11("lnbc10u1pxxxxxx")).toThrow(InvoiceParseError);
+    expect(() => decodeBolt11("not-a-bolt11")).toThrow(InvoiceParseError);
+    expect(() => decodeBolt11("")).toThrow("empty invoice");
+  });
+
+  it("rejects an invoice without a payment hash", () => {
+    // Wrong-length `p` fields are skipped per spec, leaving no payment hash.
+    const invoice = encodeTestInvoice({
+      paymentHash: "",
+      extraFields: [["p", [1, 2, 3]]],
+    });
+    expect(() => decodeBolt11(invoice)).toThrow("missing payment hash");
+  });
+
+  it("rejects pico amounts that are not a whole millisatoshi", () => {
+    expect(() => decodeBolt11(encodeTestInvoice({ amount: "15p" }))).toThrow(
+      "pico amount",
+    );
+  });
+
+  it("skips unknown tagged fields", () => {
+    const inv = decodeBolt11(
+      encodeTestInvoice({
+        amount: "1m",
+        description: "coffee",
+        extraFields: [["f", [0, 1, 2, 3]]],
+      }),
+    );
+    expect(inv.amountSats).toBe(100_000);
+    expect(inv.description).toBe("coffee");
+  });
+
+  it("agrees with extractAmountSats on valid invoices", () => {
+    for (const invoice of [MAINNET_INVOICE, TESTNET_INVOICE]) {
+      expect(decodeBolt11(invoice).amountSats).toBe(extractAmountSats(invoice));
+    }
+  });
+});
+
+describe("preimageMatchesPaymentHash", () => {
+  // MAINNET_INVOICE's payment hash is sha256 of this preimage.
+  const preimage =
+    "0001020304050607080900010203040506070809000102030405060708090102";
+  const { paymentHash } = decodeBolt11(MAINNET_INVOICE);
+
+  it("accepts the preimage that hashes to the payment hash", () => {
+    expect(preimageMatchesPaymentHash(preimage, paymentHash)).toBe(true);
+    expect(
+      preimageMatchesPaymentHash(preimage.toUpperCase(), paymentHash.toUpperCase()),
+    ).toBe(true);
+  });
+
+  it("rejects any other preimage", () => {
+    expect(preimageMatchesPaymentHash("00".repeat(32), paymentHash)).toBe(false);
+  });
+
+  it("rejects preimages that are not 32 bytes of hex", () => {
+    expect(preimageMatchesPaymentHash("abc123", paymentHash)).toBe(false);
+    expect(preimageMatchesPaymentHash(preimage + "00", paymentHash)).toBe(false);
+    expect(preimageMatchesPaymentHash("zz".repeat(32), paymentHash)).toBe(false);
+  });
+});
@@ -0,0 +1,205 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  appendFileSync,
+  existsSync,
+  mkdtempSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  statSync,
+  utimesSync,
+  writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { BudgetController } from "../src/budget.js";
+import { FileBudgetStore, MemoryBudgetStore } from "../src/budget-store.js";
+import {
+  BudgetExceededError,
+  L402Error,
+  StoreReadError,
+} from "../src/errors.js";
+import { withFileLock } from "../src/file-utils.js";
+
+describe("FileBudgetStore", () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-01-15T12:00:00Z"));
+    dir = mkdtempSync(join(tmpdir(), "l402-budget-"));
+    path = join(dir, "nested", "budget.json");
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("shares one rolling window between controllers", async () => {
+    // Two workers pointed at the same file.
+    const a = new BudgetController({
+      maxSatsPerHour: 1000,
+      store: new FileBudgetStore(path),
+    });
+    const b = new BudgetController({
+      maxSatsPerHour: 1000,
+      store: new FileBudgetStore(path),
+    });
+
+    await a.recordPayment(600);
+    expect(b.spentLastHour()).toBe(600);
+    expect(() => b.check(500)).toThrow(BudgetExceededError);
+
+    await b.recordPayment(300);
+    expect(a.spentLastHour()).toBe(900);
+  });
+
+  it("keeps spending across restarts", async () => {
+    await new BudgetController({
+      store: new FileBudgetStore(path),
+    }).recordPayment(700);
+
+    const restarted = new BudgetController({
+      maxSatsPerDay: 1000,
+      store: new FileBudgetStore(path),
+    });
+    expect(restarted.spentLastDay()).toBe(700);
+    expect(() => restarted.check(400)).toThrow(BudgetExceededError);
+  });
+
+  it("drops payments older than 24 hours on append", async () => {
+    const store = new FileBudgetStore(path);
+    await store.append({ timestamp: Date.now(), amount: 100 });
+
+    vi.setSystemTime(Date.now() + 86_400_001);
+    await store.append({ timestamp: Date.now(), amount: 200 });
+
+    const saved = JSON.parse(readFileSync(path, "utf-8"));
+    expect(saved.payments).toEqual([{ timestamp: Date.now(), amount: 200 }]);
+  });
+
+  it("writes the file owner-only and releases the lock", async () => {
+    await new FileBudgetStore(path).append({ timestamp: Date.now(), amount: 1 });
+
+    expect(statSync(path).mode & 0o777).toBe(0o600);
+    expect(existsSync(`${path}.lock`)).toBe(false);
+  });
+
+  it("refuses payments, and leaves the file alone, when it is corrupt", async () => {
+    const store = new FileBudgetStore(path);
+    const budget = new BudgetController({ maxSatsPerDay: 1000, store });
+    await budget.recordPayment(900);
+    appendFileSync(path, "x");
+    const damaged = readFileSync(path, "utf-8");
+
+    expect(() => budget.check(200)).toThrow(StoreReadError);
+    expect(() => budget.spentLastDay()).toThrow(StoreReadError);
+    await expect(budget.recordPayment(5)).rejects.toThrow(StoreReadError);
+    expect(readFileSync(path, "utf-8")).toBe(damaged);
+  });
+
+  it("treats only a missing file as empty", async () => {
+    const store = new FileBudgetStore(path);
+    expect(store.load(0)).toEqual([]);
+
+    await store.append({ timestamp: Date.now(), amount: 1 });
+    writeFileSync(path, JSON.stringify({ version: 1, payments: [{ amount: 1 }] }));
+    expect(() => store.load(0)).toThrow(StoreReadError);
+  });
+});
+
+describe("MemoryBudgetStore", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("returns payments since the given time and forgets old ones", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-01-15T12:00:00Z"));
+    const store = new MemoryBudgetStore();
+    store.append({ timestamp: Date.now(), amount: 100 });
+    vi.advanceTimersByTime(3_600_001);
+    store.append({ timestamp: Date.now(), amount: 200 });
+
+    expect(store.load(Date.now() - 3_600_000)).toHaveLength(1);
+    expect(store.load(0)).toHaveLength(2);
+
+    vi.advanceTimersByTime(86_400_001);
+    expect(store.load(0)).toEqual([]);
+  });
+});
+
+describe("withFileLock", () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "l402-lock-"));
+    path = join(dir, "state.json");
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("times out while another process holds the lock", async () => {
+    writeFileSync(`${path}.lock`, "other");
+    await expect(withFileLock(path, () => "ran", 50)).rejects.toThrow(L402Error);
+    expect(readFileSync(`${path}.lock`, "utf-8")).toBe("other");
+  });
+
+  it("does not block the event loop while waiting", async () => {
+    writeFileSync(`${path}.lock`, "other");
+    let ticks = 0;
+    const timer = setInterval(() => ticks++, 5);
+    await withFileLock(path, () => "ran", 100).catch(() => {});
+    clearInterval(timer);
+    expect(ticks).toBeGreaterThan(0);
+  });
+
+  it("breaks a stale lock left by a crashed process", async () => {
+    writeFileSync(`${path}.lock`, "");
+    const longAgo = new Date(Date.now() - 60_000);
+    utimesSync(`${path}.lock`, longAgo, longAgo);
+
+    expect(await withFileLock(path, () => "ran", 50)).toBe("ran");
+    expect(existsSync(`${path}.lock`)).toBe(false);
+  });
+
+  it("lets only one of several waiters break a stale lock at a time", async () => {
+    writeFileSync(`${path}.lock`, "");
+    const longAgo = new Date(Date.now() - 60_000);
+    utimesSync(`${path}.lock`, longAgo, longAgo);
+
+    let holders = 0;
+    let maxHolders = 0;
+    const hold = async (): Promise<void> => {
+      maxHolders = Math.max(maxHolders, ++holders);
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      holders--;
+    };
+    await Promise.all([1, 2, 3].map(() => withFileLock(path, hold, 2_000)));
+
+    expect(maxHolders).toBe(1);
+    expect(readdirSync(dir)).toEqual([]);
+  });
+
+  it("does not remove a lock someone else has taken since", async () => {
+    await withFileLock(path, () => {
+      // Our lock was broken and another process took it meanwhile.
+      writeFileSync(`${path}.lock`, "someone else");
+    });
+    expect(readFileSync(`${path}.lock`, "utf-8")).toBe("someone else");
+  });
+
+  it("releases the lock when the callback throws", async () => {
+    await expect(
+      withFileLock(path, () => {
+        throw new Error("boom");
+      }),
+    ).rejects.toThrow("boom");
+    expect(existsSync(`${path}.lock`)).toBe(false);
+  });
+});
@@ -1,6 +1,10 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { BudgetController } from "../src/budget.js";
-import { BudgetExceededError, DomainNotAllowedError } from "../src/errors.js";
+import {
+  BudgetExceededError,
+  DomainNotAllowedError,
+  PriceRuleError,
+} from "../src/errors.js";
 
 describe("BudgetController", () => {
   beforeEach(() => {
@@ -88,6 +92,65 @@ describe("BudgetController", () => {
     expect(() => budget.check(100, "api.example.com")).not.toThrow();
   });
 
+  it("matches wildcard subdomains at any depth, but not the bare domain", () => {
+    const budget = new BudgetController({
+      allowedDomains: new Set(["*.example.com"]),
+    });
+    expect(() => budget.check(100, "eu-west.example.com")).not.toThrow();
+    expect(() => budget.check(100, "a.b.example.com")).not.toThrow();
+    expect(() => budget.check(100, "example.com")).toThrow(DomainNotAllowedError);
+    expect(() => budget.check(100, "evilexample.com")).toThrow(
+      DomainNotAllowedError,
+    );
+  });
+
+  it("matches IDNs in Unicode or punycode form", () => {
+    const budget = new BudgetController({
+      allowedDomains: new Set(["bücher.example", "*.XN--MNCHEN-3YA.example"]),
+    });
+    expect(() => budget.check(100, "xn--bcher-kva.example")).not.toThrow();
+    expect(() => budget.check(100, "api.münchen.example")).not.toThrow();
+    expect(() => budget.check(100, "bucher.example")).toThrow(
+      DomainNotAllowedError,
+    );
+  });
+
+  it("applies deny rules before allow rules and names the rule", () => {
+    const budget = new BudgetController({
+      allowedDomains: new Set(["*.example.com"]),
+      deniedDomains: new Set(["*.staging.example.com", "old.example.com."]),
+    });
+    expect(() => budget.check(100, "api.example.com")).not.toThrow();
+    expect(() => budget.check(100, "Old.Example.com")).toThrow(
+      'Domain Old.Example.com matches deny rule "old.example.com."',
+    );
+    try {
+      budget.check(100, "eu.staging.example.com");
+      expect.unreachable("should have thrown");
+    } catch (e) {
+      expect(e).toBeInstanceOf(DomainNotAllowedError);
+      expect((e as DomainNotAllowedError).rule).toBe("*.staging.example.com");
+    }
+  });
+
+  it("denies without an allowlist, and leaves rule unset when no allow rule matched", () => {
+    const denyOnly = new BudgetController({ deniedDomains: new Set(["*"]) });
+    expect(() => denyOnly.check(100, "api.example.com")).toThrow(
+      DomainNotAllowedError,
+    );
+
+    const allowOnly = new BudgetController({
+      allowedDomains: new Set(["api.example.com"]),
+    });
+    try {
+      allowOnly.check(100, "evil.com");
+      expect.unreachable("should have thrown");
+    } catch (e) {
+      expect((e as DomainNotAllowedError).rule).toBeUndefined();
+      expect((e as Error).message).toBe("Domain not in allowed list: evil.com");
+    }
+  });
+
   it("uses sensible defaults", () => {
     const budget = new BudgetController();
     expect(budget.maxSatsPerRequest).toBe(1000);
@@ -108,4 +171,164 @@ describe("BudgetController", () => {
       expect(err.invoiceSats).toBe(500);
     }
   });
+
+  describe("domainLimits", () => {
+    const budget = () =>
+      new BudgetController({
+        maxSatsPerRequest: 1000,
+        maxSatsPerDay: 10_000,
+        domainLimits: {
+          "cheap.example": { maxSatsPerRequest: 50, maxSatsPerDay: 200 },
+          "Premium.Example": { maxSatsPerRequest: 2000, maxSatsPerHour: 3000 },
+        },
+      });
+
+    it("replaces the per-request limit for the domain", () => {
+      const b = budget();
+      expect(() => b.check(60, "cheap.example")).toThrow(BudgetExceededError);
+      expect(() => b.check(1500, "premium.example")).not.toThrow();
+      expect(() => b.check(1500, "other.example")).toThrow(BudgetExceededError);
+    });
+
+    it("caps one domain's spend without touching the others", () => {
+      const b = budget();
+      for (let i = 0; i < 4; i++) b.recordPayment(50, "cheap.example");
+
+      expect(() => b.check(10, "cheap.example")).toThrow(BudgetExceededError);
+      expect(() => b.check(10, "other.example")).not.toThrow();
+      expect(b.spentLastDay("cheap.example")).toBe(200);
+      expect(b.spentLastDay()).toBe(200);
+    });
+
+    it("still applies the global caps", () => {
+      const b = budget();
+      b.recordPayment(9_000, "other.example");
+      expect(() => b.check(1500, "premium.example")).toThrow(
+        BudgetExceededError,
+      );
+    });
+
+    it("reports the domain whose limit was hit", () => {
+      const b = budget();
+      b.recordPayment(2000, "premium.example");
+      try {
+        b.check(1500, "PREMIUM.example");
+        expect.unreachable("should have thrown");
+      } catch (e) {
+        const err = e as BudgetExceededError;
+        expect(err.limitType).toBe("per_hour");
+        expect(err.domain).toBe("premium.example");
+        expect(err.limitSats).toBe(3000);
+        expect(err.currentSats).toBe(2000);
+        expect(err.message).toContain("per_hour limit for premium.example");
+      }
+    });
+
+    it("matches IDN and trailing-dot forms of the domain", () => {
+      const b = new BudgetController({
+        domainLimits: { "bücher.example.": { maxSatsPerRequest: 50 } },
+      });
+      expect(() => b.check(60, "xn--bcher-kva.example")).toThrow(
+        BudgetExceededError,
+      );
+      expect(() => b.check(60, "Bücher.example.")).toThrow(BudgetExceededError);
+
+      b.recordPayment(10, "bücher.example");
+      expect(b.spentLastDay("xn--bcher-kva.example.")).toBe(10);
+    });
+
+    it("leaves the domain unset for global limits", () => {
+      const b = budget();
+      b.recordPayment(9_500, "other.example");
+      try {
+        b.check(600, "other.example");
+        expect.unreachable("should have thrown");
+      } catch (e) {
+        expect((e as BudgetExceededError).domain).toBeUndefined();
+      }
+    });
+  });
+
+  describe("pricePolicy", () => {
+    const budget = () =>
+      new BudgetController({
+        pricePolicy: [
+          { domain: "api.example.com", path: "/admin/**", neverPay: true },
+          { domain: "API.example.com", path: "/v1/search", method: "get", maxSats: 10 },
+          { domain: "api.example.com", path: "/v1/*", method: ["POST", "PUT"], maxSats: 100 },
+          { path: "/files/??.bin", maxSats: 5 },
+        ],
+      });
+
+    it("caps a route below the global per-request limit", () => {
+      const b = budget();
+      expect(() => b.check(10, "api.example.com", "/v1/search", "GET")).not.toThrow();
+      expect(() => b.check(900, "api.example.com", "/v1/search", "GET")).toThrow(
+        PriceRuleError,
+      );
+    });
+
+    it("matches methods and single-segment globs", () => {
+      const b = budget();
+      expect(() => b.check(900, "api.example.com", "/v1/search", "POST")).toThrow(
+        PriceRuleError,
+      );
+      expect(() => b.check(50, "api.example.com", "/v1/items", "put")).not.toThrow();
+      // `*` stops at a slash, and DELETE is not listed: no rule applies.
+      expect(() => b.check(900, "api.example.com", "/v1/items/7", "PUT")).not.toThrow();
+      expect(() => b.check(900, "api.example.com", "/v1/items", "DELETE")).not.toThrow();
+    });
+
+    it("refuses never-pay routes at any price", () => {
+      const b = budget();
+      expect(() => b.check(1, "api.example.com", "/admin/users/1")).toThrow(
+        /never-pay/,
+      );
+      expect(() => b.check(1, "other.example.com", "/admin/users/1")).not.toThrow();
+    });
+
+    it("uses the first matching rule, for any domain when none is given", () => {
+      const b = budget();
+      expect(() => b.check(6, "cdn.example.net", "/files/ab.bin")).toThrow(
+        PriceRuleError,
+      );
+      expect(() => b.check(6, "cdn.example.net", "/files/abc.bin")).not.toThrow();
+    });
+
+    it("matches rule domains in IDN and trailing-dot forms", () => {
+      const b = new BudgetController({
+        pricePolicy: [{ domain: "münchen.example.", path: "/**", maxSats: 5 }],
+      });
+      expect(() => b.check(6, "xn--mnchen-3ya.example", "/a")).toThrow(
+        PriceRuleError,
+      );
+      expect(() => b.check(6, "MÜNCHEN.example", "/a")).toThrow(PriceRuleError);
+      expect(() => b.check(6, "munchen.example", "/a")).not.toThrow();
+    });
+
+    it("reports the rule and request", () => {
+      try {
+        budget().check(900, "api.example.com", "/v1/search", "get");
+        expect.unreachable("should have thrown");
+      } catch (e) {
+        const err = e as PriceRuleError;
+        expect(err.rule.maxSats).toBe(10);
+        expect(err.method).toBe("GET");
+        expect(err.message).toBe(
+          "Refusing to pay 900 sats for GET api.example.com/v1/search: " +
+            "the route's price limit is 10 sats",
+        );
+      }
+    });
+
+    it("still applies the global limits under a route's ceiling", () => {
+      const b = new BudgetController({
+        maxSatsPerRequest: 50,
+        pricePolicy: [{ path: "/**", maxSats: 500 }],
+      });
+      expect(() => b.check(100, "api.example.com", "/x")).toThrow(
+        BudgetExceededError,
+      );
+    });
+  });
 });
@@ -4,9 +4,59 @@ import {
   findL402Challenge,
   parseMppChallenge,
   findPaymentChallenge,
+  parseWwwAuthenticate,
+  parsePaymentReceipt,
 } from "../src/challenge.js";
 import { ChallengeParseError } from "../src/errors.js";
 
+describe("parseWwwAuthenticate", () => {
+  it("splits comma-joined challenges with params and token68", () => {
+    const header =
+      'Bearer abc==, L402 version="0", token="mac1", invoice="lnbc1", ' +
+      'Payment id="x1", method="lightning", invoice="lnbc2"';
+    expect(parseWwwAuthenticate(header)).toEqual([
+      { scheme: "Bearer", params: {}, token68: "abc==" },
+      {
+        scheme: "L402",
+        params: { version: "0", token: "mac1", invoice: "lnbc1" },
+      },
+      {
+        scheme: "Payment",
+        params: { id: "x1", method: "lightning", invoice: "lnbc2" },
+      },
+    ]);
+  });
+
+  it("unescapes quoted-strings and keeps commas inside them", () => {
+    const [challenge] = parseWwwAuthenticate(
+      'Payment description="say \\"hi\\", then pay", method=lightning',
+    );
+    expect(challenge.params).toEqual({
+      description: 'say "hi", then pay',
+      method: "lightning",
+    });
+  });
+
+  it("lower-cases names, allows spaces around '=', keeps the first duplicate", () => {
+    const [challenge] = parseWwwAuthenticate(
+      'Basic Realm = "one", realm="two"',
+    );
+    expect(challenge.params).toEqual({ realm: "one" });
+  });
+
+  it("handles schemes without params followed by more challenges", () => {
+    const challenges = parseWwwAuthenticate(
+      "Negotiate, L402 macaroon=m, invoice=i",
+    );
+    expect(challenges.map((c) => c.scheme)).toEqual(["Negotiate", "L402"]);
+    expect(challenges[1].params).toEqual({ macaroon: "m", invoice: "i" });
+  });
+
+  it("returns no challenges for an empty header", () => {
+    expect(parseWwwAuthenticate("")).toEqual([]);
+  });
+});
+
 describe("parseChallenge", () => {
   it("parses L402 with quoted values", () => {
     const header = 'L402 macaroon="abc123", invoice="lnbc10u1p..."';
@@ -35,6 +85,22 @@ describe("parseChallenge", () => {
     expect(result.macaroon).toBe("abc123");
   });
 
+  it("accepts params in any order, extra params and a token= macaroon", () => {
+    expect(
+      parseChallenge('L402 invoice="lnbc1", version="0", token="mac1"'),
+    ).toEqual({ macaroon: "mac1", invoice: "lnbc1" });
+  });
+
+  it("finds L402 among other challenges and prefers it over LSAT", () => {
+    const header =
+      'Bearer realm="api", LSAT macaroon="old", invoice="lnbc1", ' +
+      'L402 macaroon="new", invoice="lnbc2"';
+    expect(parseChallenge(header)).toEqual({
+      macaroon: "new",
+      invoice: "lnbc2",
+    });
+  });
+
   it("throws ChallengeParseError for empty header", () => {
     expect(() => parseChallenge("")).toThrow(ChallengeParseError);
   });
@@ -160,6 +226,31 @@ describe("parseMppChallenge", () => {
     expect(result.amount).toBe("300");
   });
 
+  it("parses id, expires, description and the base64url request", () => {
+    const request = Buffer.from(
+      JSON.stringify({ amount: "100", currency: "sat" }),
+    ).toString("base64url");
+    const result = parseMppChallenge(
+      `Payment id="ch_1", realm="api", method="lightning", invoice="lnbc1", ` +
+        `expires="2026-01-15T12:05:00Z", description="Weather data", request="${request}"`,
+    );
+    expect(result).toMatchObject({
+      id: "ch_1",
+      expires: "2026-01-15T12:05:00Z",
+      description: "Weather data",
+      request,
+      requestData: { amount: "100", currency: "sat" },
+    });
+  });
+
+  it("keeps an undecodable request raw without requestData", () => {
+    const result = parseMppChallenge(
+      'Payment method="lightning", invoice="lnbc1", request="not-json"',
+    );
+    expect(result.request).toBe("not-json");
+    expect(result.requestData).toBeUndefined();
+  });
+
   it("parses Payment challenge from comma-concatenated header", () => {
     const header =
       'Bearer realm="api", Payment method="lightning", invoice="lnbc400n1pjtest"';
@@ -168,6 +259,21 @@ describe("parseMppChallenge", () => {
   });
 });
 
+describe("parsePaymentReceipt", () => {
+  it("decodes a base64url JSON receipt", () => {
+    const receipt = { status: "success", method: "lightning", reference: "r1" };
+    const header = Buffer.from(JSON.stringify(receipt)).toString("base64url");
+    expect(parsePaymentReceipt(header)).toEqual(receipt);
+  });
+
+  it("returns null for anything but a JSON object", () => {
+    expect(parsePaymentReceipt("%%%")).toBeNull();
+    expect(
+      parsePaymentReceipt(Buffer.from("[1]").toString("base64url")),
+    ).toBeNull();
+  });
+});
+
 describe("findPaymentChallenge", () => {
   it("prefers L402 when header contains L402 challenge", () => {
     const headers = {
@@ -190,6 +296,37 @@ describe("findPaymentChallenge", () => {
     expect(result!.invoice).toBe("lnbc100n1pjtest");
   });
 
+  it("prefers L402 over MPP regardless of header order", () => {
+    const headers = {
+      "www-authenticate":
+        'Payment method="lightning", invoice="lnbc1", ' +
+        'L402 macaroon="mac", invoice="lnbc2"',
+    };
+    expect(findPaymentChallenge(headers)).toEqual({
+      macaroon: "mac",
+      invoice: "lnbc2",
+    });
+  });
+
+  it("skips non-lightning Payment challenges", () => {
+    const headers = {
+      "www-authenticate":
+        'Payment method="stripe", invoice="pi_1", ' +
+        'Payment method="lightning", invoice="lnbc1"',
+    };
+    expect(findPaymentChallenge(headers)?.invoice).toBe("lnbc1");
+  });
+
+  it("reads challenges from several WWW-Authenticate header lines", () => {
+    const headers = new Headers();
+    headers.append("www-authenticate", 'Bearer realm="api"');
+    headers.append("www-authenticate", 'L402 macaroon="mac", invoice="lnbc1"');
+    expect(findPaymentChallenge(headers)).toEqual({
+      macaroon: "mac",
+      invoice: "lnbc1",
+    });
+  });
+
   it("returns null for unknown scheme", () => {
     const headers = { "www-authenticate": "Bearer token123" };
     expect(findPaymentChallenge(headers)).toBeNull();
@@ -1,14 +1,30 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { L402Client } from "../src/client.js";
 import { BudgetController } from "../src/budget.js";
+import { CredentialCache } from "../src/credential-cache.js";
+import { decodeBolt11 } from "../src/bolt11.js";
 import {
+  AmountMismatchError,
+  BodyNotReplayableError,
   BudgetExceededError,
   PaymentFailedError,
   NoWalletError,
   UnsupportedWalletError,
   InvoiceAmountUnknownError,
+  InvoiceExpiredError,
+  PreimageMismatchError,
+  PaymentRejectedError,
+  PaymentVetoedError,
+  PaymentNotApprovedError,
+  PaymentOutcomeUnknownError,
+  PriceRuleError,
 } from "../src/errors.js";
-import type { Wallet } from "../src/types.js";
+import { SpendingLog } from "../src/spending-log.js";
+import type { PaymentRecord, Wallet } from "../src/types.js";
+import type { ApprovalProvider } from "../src/approval.js";
+import { encodeTestInvoice } from "./helpers/invoice.js";
+
+const PREIMAGE = "11".repeat(32);
 
 /** A mock wallet that always returns a fixed preimage (hex string). */
 function mockWallet(preimage = "abc123def456"): Wallet {
@@ -44,6 +60,29 @@ function mockL402FetchRawInvoice(invoice: string) {
   });
 }
 
+/**
+ * Build a mock fetch that answers 402 with the given invoice until it sees an
+ * Authorization header, then 200. For tests that need a real, decodable
+ * invoice (see `encodeTestInvoice`).
+ */
+function mockL402FetchWithInvoice(invoice: string, data: unknown = { result: "ok" }) {
+  return vi.fn().mockImplementation(async (_url: string, init?: RequestInit) => {
+    const headers = new Headers(init?.headers);
+    if (!headers.get("Authorization")) {
+      return new Response("Payment Required", {
+        status: 402,
+        headers: {
+          "WWW-Authenticate": `L402 macaroon="mac123", invoice="${invoice}"`,
+        },
+      });
+    }
+    return new Response(JSON.stringify(data), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  });
+}
+
 /**
  * Build a mock fetch that returns 402 on first call and 200 on retry.
  * The 402 response includes a valid L402 challenge header.
@@ -140,6 +179,47 @@ describe("L402Client", () => {
     ).rejects.toThrow(BudgetExceededError);
   });
 
+  it("counts payments against the paid domain's budget limits", async () => {
+    globalThis.fetch = mockL402Fetch({}, "1u"); // 100 sats
+
+    const budget = new BudgetController({
+      domainLimits: { "api.example.com": { maxSatsPerDay: 150 } },
+    });
+    const client = new L402Client({
+      wallet: mockWallet(),
+      budget,
+      credentialCache: new CredentialCache({ scope: "exact-path" }),
+    });
+
+    await client.get("https://api.example.com/a");
+    expect(budget.spentLastDay("api.example.com")).toBe(100);
+
+    globalThis.fetch = mockL402Fetch({}, "1u");
+    await expect(client.get("https://api.example.com/b")).rejects.toMatchObject({
+      name: "BudgetExceededError",
+      domain: "api.example.com",
+    });
+  });
+
+  it("refuses a route priced above its policy before calling the wallet", async () => {
+    globalThis.fetch = mockL402Fetch({}, "9u"); // 900 sats
+    const wallet = mockWallet();
+    const client = new L402Client({
+      wallet,
+      budget: new BudgetController({
+        pricePolicy: [
+          { domain: "api.example.com", path: "/v1/search", method: "GET", maxSats: 10 },
+        ],
+      }),
+    });
+
+    await expect(client.get("https://api.example.com/v1/search")).rejects.toThrow(
+      PriceRuleError,
+    );
+    expect(wallet.payInvoice).not.toHaveBeenCalled();
+    expect(client.spendingLog.length).toBe(0);
+  });
+
   it("records payment in spending log", async () => {
     const fetchMock = mockL402Fetch({}, "10u"); // 1000 sats
     globalThis.fetch = fetchMock;
@@ -319,12 +399,12 @@ describe("L402Client", () => {
 
   it("refuses an MPP challenge with amount=0 on an amountless invoice (ledger #42)", async () => {
     // An MPP amount=0 resolving onto an amountless invoice is a blank cheque:
-    // the wallet, not the server, would pick the spend. This port refuses it
-    // because it prices the request purely from the BOLT11 invoice and does NOT
-    // read the MPP `amount` param (adding that is deferred ledger #72), so an
-    // amountless invoice is unbounded regardless of the MPP amount. That is the
-    // safe outcome for #42. This test pins it EXPLICITLY so the refusal can't
-    // silently regress to a 0-sat payment if MPP-amount support is ever added.
+    // the wallet, not the server, would pick the spend. This port prices the
+    // request from the BOLT11 invoice and only cross-checks the MPP `amount`
+    // against an invoice that has one, so an amountless invoice is refused
+    // before the advertised amount is even read. That is the safe outcome for
+    // #42. This test pins it EXPLICITLY so the refusal can't silently regress
+    // to a 0-sat payment by way of a matching `amount="0"`.
     const payInvoice = vi.fn().mockResolvedValue("never-called");
     const wallet: Wallet = { supportsPreimage: true, payInvoice };
 
@@ -355,6 +435,91 @@ describe("L402Client", () => {
     expect(client.spendingLog.records).toHaveLength(0);
   });
 
+  it("refuses an MPP challenge advertising less than its invoice encodes", async () => {
+    const payInvoice = vi.fn().mockResolvedValue("never-called");
+    const wallet: Wallet = { supportsPreimage: true, payInvoice };
+    globalThis.fetch = vi.fn().mockImplementation(async () => {
+      return new Response("Payment Required", {
+        status: 402,
+        headers: {
+          // lnbc100u = 10,000 sats
+          "WWW-Authenticate":
+            'Payment method="lightning", invoice="lnbc100u1ptest", amount="10", currency="sat"',
+        },
+      });
+    });
+
+    const client = new L402Client({ wallet, budget: null });
+    const error = await client
+      .get("https://api.example.com/paid")
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(AmountMismatchError);
+    expect((error as AmountMismatchError).message).toContain("10 sat");
+    expect((error as AmountMismatchError).message).toContain("10000 sats");
+    expect(error).toMatchObject({
+      advertised: "10 sat",
+      invoiceAmountMsat: 10_000_000,
+      bolt11: "lnbc100u1ptest",
+    });
+    expect(payInvoice).not.toHaveBeenCalled();
+    expect(client.spendingLog.records).toHaveLength(0);
+  });
+
+  it("refuses an MPP challenge priced in a currency it cannot check", async () => {
+    const payInvoice = vi.fn().mockResolvedValue("never-called");
+    const wallet: Wallet = { supportsPreimage: true, payInvoice };
+    globalThis.fetch = vi.fn().mockImplementation(async () => {
+      return new Response("Payment Required", {
+        status: 402,
+        headers: {
+          "WWW-Authenticate":
+            'Payment method="lightning", invoice="lnbc10u1ptest", amount="25", currency="usd"',
+        },
+      });
+    });
+
+    const client = new L402Client({ wallet, budget: null });
+
+    await expect(
+      client.get("https://api.example.com/paid"),
+    ).rejects.toMatchObject({
+      name: "AmountMismatchError",
+      advertised: "25 usd",
+      invoiceAmountMsat: 1_000_000,
+    });
+    expect(payInvoice).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ["1000", undefined],
+    ["1000000", "msat"],
+    ["0.00001", "BTC"],
+  ])("pays when amount=%s currency=%s agrees with the invoice", async (amount, currency) => {
+    let served = false;
+    globalThis.fetch = vi.fn().mockImplementation(async (_url: string, init?: RequestInit) => {
+      if (!served && !new Headers(init?.headers).has("Authorization")) {
+        served = true;
+        const currencyParam = currency ? `, currency="${currency}"` : "";
+        return new Response("Payment Required", {
+          status: 402,
+          headers: {
+            // lnbc10u = 1,000 sats
+            "WWW-Authenticate": `Payment method="lightning", invoice="lnbc10u1ptest", amount="${amount}"${currencyParam}`,
+          },
+        });
+      }
+      return new Response("ok", { status: 200 });
+    });
+
+    const wallet = mockWallet("deadbeef0123");
+    const client = new L402Client({ wallet, budget: null });
+    const response = await client.get("https://api.example.com/paid");
+
+    expect(response.status).toBe(200);
+    expect(wallet.payInvoice).toHaveBeenCalledOnce();
+  });
+
   it("refuses a literal-zero BOLT11 invoice instead of paying it (ledger #42)", async () => {
     // "lnbc0p1..." DECODES to 0, not null — the amount field is present, it is
     // just zero — so a bare null-check lets it through, budget.check(0) passes,
@@ -422,6 +587,55 @@ describe("L402Client", () => {
     expect(wallet.payInvoice).toHaveBeenCalledOnce();
   });
 
+  it("does not send a credential to another scheme or port", async () => {
+    globalThis.fetch = vi.fn().mockImplementation(async (_url: string, init?: RequestInit) => {
+      if (new Headers(init?.headers).has("Authorization")) {
+        return new Response("ok", { status: 200 });
+      }
+      return new Response("Payment Required", {
+        status: 402,
+        headers: { "WWW-Authenticate": 'L402 macaroon="mac1", invoice="lnbc10u1ptest"' },
+      });
+    });
+
+    const wallet = mockWallet();
+    const client = new L402Client({ wallet, budget: null });
+    await client.get("https://api.example.com:8443/api/v1/data");
+    await client.get("http://api.example.com/api/v1/data/more");
+
+    expect(wallet.payInvoice).toHaveBeenCalledTimes(2);
+  });
+
+  it("reuses a realm-scoped MPP credential when another path names the realm", async () => {
+    const fetchMock = vi.fn().mockImplementation(async (_url: string, init?: RequestInit) => {
+      if (new Headers(init?.headers).has("Authorization")) {
+        return new Response("ok", { status: 200 });
+      }
+      return new Response("Payment Required", {
+        status: 402,
+        headers: {
+          "WWW-Authenticate":
+            'Payment realm="weather", method="lightning", invoice="lnbc10u1ptest"',
+        },
+      });
+    });
+    globalThis.fetch = fetchMock;
+
+    const wallet = mockWallet("deadbeef0123");
+    const client = new L402Client({
+      wallet,
+      budget: null,
+      credentialCache: new CredentialCache({ scope: "realm" }),
+    });
+    await client.get("https://api.example.com/forecast");
+    const response = await client.get("https://api.example.com/v2/history/2025");
+
+    expect(response.status).toBe(200);
+    expect(wallet.payInvoice).toHaveBeenCalledOnce();
+    // bare request, 402, then retried with the realm's credential
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+  });
+
   it("returns 402 as-is when no L402 challenge header", async () => {
     const fetchMock = vi.fn().mockResolvedValue(
       new Response("Payment Required", { status: 402 }),
@@ -456,6 +670,97 @@ describe("L402Client", () => {
     expect(retryBody).toBe(JSON.stringify({ name: "test" }));
   });
 
+  /** What each send carried, as the server would parse it. */
+  function sentRequests(fetchMock: ReturnType<typeof vi.fn>): Request[] {
+    return fetchMock.mock.calls.map(
+      ([url, init]: [string, RequestInit]) => new Request(url, init),
+    );
+  }
+
+  it("replays a multipart FormData upload byte for byte", async () => {
+    const fetchMock = mockL402Fetch({ uploaded: true });
+    globalThis.fetch = fetchMock;
+    const form = new FormData();
+    form.append("name", "report");
+    form.append("file", new Blob(["a,b\n1,2\n"], { type: "text/csv" }), "data.csv");
+
+    const client = new L402Client({ wallet: mockWallet(), budget: null });
+    const response = await client.post("https://api.example.com/upload", {
+      body: form,
+    });
+
+    expect(response.status).toBe(200);
+    const [first, retry] = sentRequests(fetchMock);
+    expect(retry.headers.get("content-type")).toBe(
+      first.headers.get("content-type"),
+    );
+    expect(retry.headers.get("content-type")).toMatch(
+      /^multipart\/form-data; boundary=/,
+    );
+    const parsed = await retry.formData();
+    expect(parsed.get("name")).toBe("report");
+    expect(await (parsed.get("file") as File).text()).toBe("a,b\n1,2\n");
+  });
+
+  it("keeps the form content type of URLSearchParams bodies", async () => {
+    const fetchMock = mockL402Fetch();
+    globalThis.fetch = fetchMock;
+    const client = new L402Client({ wallet: mockWallet(), budget: null });
+
+    await client.post("https://api.example.com/form", {
+      body: new URLSearchParams({ q: "lightning" }),
+    });
+
+    const retry = sentRequests(fetchMock)[1];
+    expect(retry.headers.get("content-type")).toBe(
+      "application/x-www-form-urlencoded;charset=UTF-8",
+    );
+    expect(await retry.text()).toBe("q=lightning");
+  });
+
+  it("accepts a Request and replays a clone of it", async () => {
+    const fetchMock = mockL402Fetch();
+    globalThis.fetch = fetchMock;
+    const client = new L402Client({ wallet: mockWallet(), budget: null });
+    const request = new Request("https://api.example.com/api/v1/items", {
+      method: "PUT",
+      headers: { "X-Trace": "t1" },
+      body: "payload",
+    });
+
+    const response = await client.fetch(request);
+
+    expect(response.status).toBe(200);
+    const [first, retry] = sentRequests(fetchMock);
+    expect(first.url).toBe("https://api.example.com/api/v1/items");
+    expect(retry.method).toBe("PUT");
+    expect(retry.headers.get("x-trace")).toBe("t1");
+    expect(retry.headers.get("authorization")).toMatch(/^L402 /);
+    expect(await retry.text()).toBe("payload");
+    expect(request.bodyUsed).toBe(false);
+  });
+
+  it("refuses bodies it cannot replay before sending anything", async () => {
+    const fetchMock = mockL402Fetch();
+    globalThis.fetch = fetchMock;
+    const client = new L402Client({ wallet: mockWallet(), budget: null });
+
+    const used = new Request("https://api.example.com/x", {
+      method: "POST",
+      body: "once",
+    });
+    await used.text();
+    await expect(client.fetch(used)).rejects.toThrow(BodyNotReplayableError);
+
+    const stream = new ReadableStream<Uint8Array>();
+    stream.getReader(); // locked
+    await expect(
+      client.post("https://api.example.com/x", { body: stream }),
+    ).rejects.toThrow(BodyNotReplayableError);
+
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
   it("disables budget when null", async () => {
     const fetchMock = mockL402Fetch({}, "500u"); // 50,000 sats
     globalThis.fetch = fetchMock;
@@ -508,13 +813,79 @@ describe("L402Client", () => {
     const retryCall = fetchMock.mock.calls[1];
     const retryHeaders = new Headers(retryCall[1].headers);
     expect(retryHeaders.get("Authorization")).toBe(
-      'Payment method="lightning", preimage="deadbeef0123"',
+      'Payment realm="api.example.com", method="lightning", preimage="deadbeef0123"',
     );
 
     // MPP challenges carry no macaroon — recorded as empty string
     expect(client.spendingLog.records[0].macaroon).toBe("");
   });
 
+  it("echoes the MPP challenge id and records the Payment-Receipt", async () => {
+    const receipt = { status: "success", method: "lightning", reference: "r1" };
+    const fetchMock = vi.fn().mockImplementation(async (_url: string, init?: RequestInit) => {
+      if (!new Headers(init?.headers).has("Authorization")) {
+        return new Response("Payment Required", {
+          status: 402,
+          headers: {
+            "WWW-Authenticate":
+              'Payment id="ch_1", method="lightning", invoice="lnbc10u1ptest", expires="2026-01-15T12:05:00Z"',
+          },
+        });
+      }
+      return new Response("ok", {
+        status: 200,
+        headers: {
+          "Payment-Receipt": Buffer.from(JSON.stringify(receipt)).toString("base64url"),
+        },
+      });
+    });
+    globalThis.fetch = fetchMock;
+
+    const client = new L402Client({ wallet: mockWallet("deadbeef0123"), budget: null });
+    await client.get("https://api.example.com/mpp-resource");
+
+    const retryHeaders = new Headers(fetchMock.mock.calls[1][1].headers);
+    expect(retryHeaders.get("Authorization")).toBe(
+      'Payment id="ch_1", method="lightning", expires="2026-01-15T12:05:00Z", preimage="deadbeef0123"',
+    );
+    expect(client.spendingLog.records).toHaveLength(1);
+    expect(client.spendingLog.records[0].receipt).toEqual(receipt);
+  });
+
+  it("logs the payment before the retry comes back", async () => {
+    const written: PaymentRecord[] = [];
+    const spendingLog = new SpendingLog({
+      sinks: [{ write: (record) => written.push(record) }],
+    });
+    let retried!: () => void;
+    globalThis.fetch = vi.fn().mockImplementation(
+      async (_url: string, init?: RequestInit) => {
+        if (!new Headers(init?.headers).has("Authorization")) {
+          return new Response("Payment Required", {
+            status: 402,
+            headers: {
+              "WWW-Authenticate": 'L402 macaroon="mac123", invoice="lnbc10u1ptest"',
+            },
+          });
+        }
+        retried();
+        return new Promise(() => {}); // the retry never returns
+      },
+    );
+    const client = new L402Client({ wallet: mockWallet(), spendingLog });
+
+    void client.get("https://api.example.com/slow");
+    await new Promise<void>((resolve) => {
+      retried = resolve;
+    });
+
+    expect(written).toHaveLength(1);
+    expect(client.spendingLog.records[0]).toMatchObject({
+      domain: "api.example.com",
+      success: true,
+    });
+  });
+
   it("prefers L402 over MPP when both available", async () => {
     let callCount = 0;
     const fetchMock = vi.fn().mockImplementation(async (_url: string, init?: RequestInit) => {
@@ -585,4 +956,845 @@ describe("L402Client", () => {
     expect(fetchMock.mock.calls[4][1].method).toBe("PATCH");
     expect(fetchMock.mock.calls[5][1].method).toBe("HEAD");
   });
+
+  // ── Preimage / payment hash binding ──
+
+  it("caches the credential when the preimage matches the payment hash", async () => {
+    const invoice = encodeTestInvoice({ amount: "10u", preimage: PREIMAGE });
+    const fetchMock = mockL402FetchWithInvoice(invoice);
+    globalThis.fetch = fetchMock;
+
+    const client = new L402Client({ wallet: mockWallet(PREIMAGE) });
+    const response = await client.get("https://api.example.com/paid");
+
+    expect(response.status).toBe(200);
+    const retryHeaders = new Headers(fetchMock.mock.calls[1][1].headers);
+    expect(retryHeaders.get("Authorization")).toBe(`L402 mac123:${PREIMAGE}`);
+    expect(client.spendingLog.records[0].unusable).toBeUndefined();
+  });
+
+  it("refuses to cache a preimage that does not match the payment hash", async () => {
+    const invoice = encodeTestInvoice({ amount: "10u", preimage: PREIMAGE });
+    const fetchMock = mockL402FetchWithInvoice(invoice);
+    globalThis.fetch = fetchMock;
+
+    const budget = new BudgetController();
+    const wallet = mockWallet("22".repeat(32));
+    const client = new L402Client({ wallet, budget });
+
+    await expect(
+      client.get("https://api.example.com/paid"),
+    ).rejects.toThrow(PreimageMismatchError);
+
+    // No retry with the bad credential, and nothing cached for next time.
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await expect(
+      client.get("https://api.example.com/paid"),
+    ).rejects.toThrow(PreimageMismatchError);
+    expect(wallet.payInvoice).toHaveBeenCalledTimes(2);
+
+    // The sats still left the wallet: budgeted and logged as unusable.
+    expect(budget.spentLastHour()).toBe(2000);
+    const record = client.spendingLog.records[0];
+    expect(record.success).toBe(true);
+    expect(record.unusable).toBe(true);
+    expect(record.amountSats).toBe(1000);
+  });
+
+  it("rejects a non-hex preimage from the wallet as a mismatch", async () => {
+    const invoice = encodeTestInvoice({ amount: "10u", preimage: PREIMAGE });
+    globalThis.fetch = mockL402FetchWithInvoice(invoice);
+
+    const client = new L402Client({ wallet: mockWallet("not-a-preimage") });
+
+    await expect(
+      client.get("https://api.example.com/paid"),
+    ).rejects.toMatchObject({
+      name: "PreimageMismatchError",
+      bolt11: invoice,
+    });
+  });
+
+  it("still logs, caches and retries a payment the budget store cannot record", async () => {
+    const invoice = encodeTestInvoice({ amount: "10u", preimage: PREIMAGE });
+    const fetchMock = mockL402FetchWithInvoice(invoice);
+    globalThis.fetch = fetchMock;
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const budget = new BudgetController({
+      store: {
+        load: () => [],
+        append: () => Promise.reject(new Error("Timed out waiting for lock")),
+      },
+    });
+    const wallet = mockWallet(PREIMAGE);
+    const client = new L402Client({ wallet, budget });
+
+    const first = await client.get("https://api.example.com/paid");
+    const second = await client.get("https://api.example.com/paid");
+
+    expect(first.status).toBe(200);
+    expect(second.status).toBe(200);
+    expect(wallet.payInvoice).toHaveBeenCalledOnce();
+    expect(client.spendingLog.records).toHaveLength(1);
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringContaining("Timed out waiting for lock"),
+    );
+    warn.mockRestore();
+  });
+
+  // ── Invoice expiry ──
+
+  /** Mock fetch that answers each unauthenticated call with the next invoice. */
+  function mockL402FetchSequence(invoices: string[]) {
+    let served = 0;
+    return vi.fn().mockImplementation(async (_url: string, init?: RequestInit) => {
+      if (new Headers(init?.headers).get("Authorization")) {
+        return new Response(JSON.stringify({ ok: true }), { status: 200 });
+      }
+      const invoice = invoices[Math.min(served++, invoices.length - 1)];
+      return new Response("Payment Required", {
+        status: 402,
+        headers: {
+          "WWW-Authenticate": `L402 macaroon="mac123", invoice="${invoice}"`,
+        },
+      });
+    });
+  }
+
+  const nowSeconds = () => Math.floor(Date.now() / 1000);
+  const expiredInvoice = () =>
+    encodeTestInvoice({
+      amount: "10u",
+      preimage: PREIMAGE,
+      timestamp: nowSeconds() - 7200,
+      expiry: 3600,
+    });
+
+  it("re-requests once for a fresh challenge when the invoice has expired", async () => {
+    const fresh = encodeTestInvoice({ amount: "10u", preimage: PREIMAGE });
+    const fetchMock = mockL402FetchSequence([expiredInvoice(), fresh]);
+    globalThis.fetch = fetchMock;
+
+    const wallet = mockWallet(PREIMAGE);
+    const client = new L402Client({ wallet });
+    const response = await client.get("https://api.example.com/paid");
+
+    expect(response.status).toBe(200);
+    expect(wallet.payInvoice).toHaveBeenCalledOnce();
+    expect(wallet.payInvoice).toHaveBeenCalledWith(fresh, { signal: undefined });
+    // Initial 402, refreshed 402, paid retry.
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("throws InvoiceExpiredError when the refreshed invoice is stale too", async () => {
+    const stale = expiredInvoice();
+    const fetchMock = mockL402FetchSequence([stale]);
+    globalThis.fetch = fetchMock;
+
+    const wallet = mockWallet(PREIMAGE);
+    const client = new L402Client({ wallet });
+
+    await expect(
+      client.get("https://api.example.com/paid"),
+    ).rejects.toMatchObject({
+      name: "InvoiceExpiredError",
+      bolt11: stale,
+      expiresAt: decodeBolt11(stale).expiresAt,
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(wallet.payInvoice).not.toHaveBeenCalled();
+    expect(client.spendingLog.records).toHaveLength(0);
+  });
+
+  it("does not re-request when refreshExpiredInvoices is false", async () => {
+    const fetchMock = mockL402FetchSequence([expiredInvoice()]);
+    globalThis.fetch = fetchMock;
+
+    const wallet = mockWallet(PREIMAGE);
+    const client = new L402Client({ wallet, refreshExpiredInvoices: false });
+
+    await expect(
+      client.get("https://api.example.com/paid"),
+    ).rejects.toThrow(InvoiceExpiredError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(wallet.payInvoice).not.toHaveBeenCalled();
+  });
+
+  it("refuses an invoice expiring within the safety margin", async () => {
+    // Still valid for 20s, but the margin is 60s.
+    const closeCall = encodeTestInvoice({
+      amount: "10u",
+      preimage: PREIMAGE,
+      timestamp: nowSeconds() - 580,
+      expiry: 600,
+    });
+    globalThis.fetch = mockL402FetchSequence([closeCall]);
+
+    const wallet = mockWallet(PREIMAGE);
+    const client = new L402Client({
+      wallet,
+      invoiceExpiryMarginSeconds: 60,
+      refreshExpiredInvoices: false,
+    });
+
+    await expect(
+      client.get("https://api.example.com/paid"),
+    ).rejects.toThrow(InvoiceExpiredError);
+    expect(wallet.payInvoice).not.toHaveBeenCalled();
+  });
+
+  // ── Single-flight payments ──
+
+  /** A wallet whose payments all wait for `release()`, to hold them in flight. */
+  function gatedWallet(preimage = "abc123def456") {
+    let release!: () => void;
+    const gate = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    const wallet: Wallet = {
+      supportsPreimage: true,
+      payInvoice: vi.fn().mockImplementation(async () => {
+        await gate;
+        return preimage;
+      }),
+    };
+    return { wallet, release };
+  }
+
+  it("pays once for concurrent requests that share a credential", async () => {
+    const fetchMock = mockL402FetchWithInvoice("lnbc10u1ptest");
+    globalThis.fetch = fetchMock;
+    const { wallet, release } = gatedWallet();
+    const client = new L402Client({ wallet });
+
+    const pending = Array.from({ length: 10 }, (_, i) =>
+      client.get(`https://api.example.com/api/v1/item/${i}`),
+    );
+    await vi.waitFor(() => expect(wallet.payInvoice).toHaveBeenCalled());
+    release();
+    const responses = await Promise.all(pending);
+
+    expect(responses.every((r) => r.status === 200)).toBe(true);
+    expect(wallet.payInvoice).toHaveBeenCalledTimes(1);
+    expect(client.spendingLog.length).toBe(1);
+    // Every request retried with the one credential.
+    const authHeaders = fetchMock.mock.calls
+      .map(([, init]) => new Headers(init?.headers).get("Authorization"))
+      .filter(Boolean);
+    expect(new Set(authHeaders)).toEqual(
+      new Set(["L402 mac123:abc123def456"]),
+    );
+  });
+
+  it("pays separately for requests with different cache keys", async () => {
+    globalThis.fetch = mockL402FetchWithInvoice("lnbc10u1ptest");
+    const { wallet, release } = gatedWallet();
+    const client = new L402Client({ wallet });
+
+    const pending = [
+      client.get("https://api.example.com/api/v1/data"),
+      client.get("https://api.example.com/other/v2/data"),
+    ];
+    await vi.waitFor(() => expect(wallet.payInvoice).toHaveBeenCalledTimes(2));
+    release();
+    await Promise.all(pending);
+  });
+
+  it("lets waiting requests pay for themselves when the first payment fails", async () => {
+    globalThis.fetch = mockL402FetchWithInvoice("lnbc10u1ptest");
+    const wallet: Wallet = {
+      supportsPreimage: true,
+      payInvoice: vi
+        .fn()
+        .mockRejectedValueOnce(new Error("no route"))
+        .mockResolvedValue("abc123def456"),
+    };
+    const client = new L402Client({ wallet });
+
+    const [first, second] = await Promise.allSettled([
+      client.get("https://api.example.com/api/v1/data"),
+      client.get("https://api.example.com/api/v1/data"),
+    ]);
+
+    expect(first.status).toBe("rejected");
+    expect((first as PromiseRejectedResult).reason).toBeInstanceOf(
+      PaymentFailedError,
+    );
+    expect(second.status).toBe("fulfilled");
+    expect(wallet.payInvoice).toHaveBeenCalledTimes(2);
+  });
+
+  // ── Rejected credentials ──
+
+  /**
+   * Build a mock fetch that answers 402 with a fresh challenge to any request
+   * whose Authorization header is not in `accepted`, and 200 otherwise.
+   */
+  function mockRejectingFetch(accepted: string[], unauthorizedStatus = 402) {
+    let challenges = 0;
+    return vi.fn().mockImplementation(async (_url: string, init?: RequestInit) => {
+      const auth = new Headers(init?.headers).get("Authorization");
+      if (auth && accepted.includes(auth)) {
+        return new Response("ok", { status: 200 });
+      }
+      if (auth && unauthorizedStatus === 401) {
+        return new Response("Unauthorized", { status: 401 });
+      }
+      challenges++;
+      return new Response("Payment Required", {
+        status: 402,
+        headers: {
+          "WWW-Authenticate": `L402 macaroon="mac${challenges}", invoice="lnbc10u1ptest"`,
+        },
+      });
+    });
+  }
+
+  it("throws PaymentRejectedError when the paid credential is refused", async () => {
+    globalThis.fetch = mockRejectingFetch([]);
+    const wallet = mockWallet();
+    const credentialCache = new CredentialCache();
+    const client = new L402Client({ wallet, credentialCache });
+
+    const error = await client
+      .get("https://api.example.com/api/v1/data")
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(PaymentRejectedError);
+    const rejected = error as PaymentRejectedError;
+    expect(rejected.record).toMatchObject({
+      domain: "api.example.com",
+      amountSats: 1000,
+      macaroon: "mac1",
+      success: true,
+    });
+    expect(rejected.response.status).toBe(402);
+    expect(wallet.payInvoice).toHaveBeenCalledOnce();
+    expect(credentialCache.size).toBe(0);
+  });
+
+  it("pays a fresh challenge up to maxRepayments times", async () => {
+    const wallet: Wallet = {
+      supportsPreimage: true,
+      payInvoice: vi
+        .fn()
+        .mockResolvedValueOnce("aa11")
+        .mockResolvedValueOnce("bb22"),
+    };
+    globalThis.fetch = mockRejectingFetch(["L402 mac2:bb22"]);
+    const client = new L402Client({ wallet, maxRepayments: 1 });
+
+    const response = await client.get("https://api.example.com/api/v1/data");
+
+    expect(response.status).toBe(200);
+    expect(wallet.payInvoice).toHaveBeenCalledTimes(2);
+    expect(client.spendingLog.totalSpent()).toBe(2000);
+  });
+
+  it("gives up once maxRepayments payments were all refused", async () => {
+    globalThis.fetch = mockRejectingFetch([]);
+    const wallet = mockWallet();
+    const client = new L402Client({ wallet, maxRepayments: 2 });
+
+    await expect(
+      client.get("https://api.example.com/api/v1/data"),
+    ).rejects.toThrow(PaymentRejectedError);
+    expect(wallet.payInvoice).toHaveBeenCalledTimes(3);
+  });
+
+  it("evicts a cached credential the server refuses with 402 and pays again", async () => {
+    globalThis.fetch = mockRejectingFetch(["L402 mac1:abc123def456"]);
+    const credentialCache = new CredentialCache();
+    credentialCache.put("api.example.com", "/api/v1/data", "stale", "ffff");
+    const wallet = mockWallet();
+    const client = new L402Client({ wallet, credentialCache });
+
+    const response = await client.get("https://api.example.com/api/v1/data");
+
+    expect(response.status).toBe(200);
+    expect(wallet.payInvoice).toHaveBeenCalledOnce();
+    expect(credentialCache.get("api.example.com", "/api/v1/data")?.preimage).toBe(
+      "abc123def456",
+    );
+  });
+
+  it("evicts a cached credential refused with 401 and asks for a challenge", async () => {
+    const fetchMock = mockRejectingFetch(["L402 mac1:abc123def456"], 401);
+    globalThis.fetch = fetchMock;
+    const credentialCache = new CredentialCache();
+    credentialCache.put("api.example.com", "/api/v1/data", "stale", "ffff");
+    const client = new L402Client({ wallet: mockWallet(), credentialCache });
+
+    const response = await client.get("https://api.example.com/api/v1/data");
+
+    expect(response.status).toBe(200);
+    // Stale credential (401), bare request (402), paid retry (200).
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(
+      new Headers(fetchMock.mock.calls[1][1]?.headers).get("Authorization"),
+    ).toBeNull();
+  });
+
+  // ── Lifecycle hooks ──
+
+  it("calls the hooks in order with the payment details", async () => {
+    globalThis.fetch = mockL402FetchWithInvoice("lnbc10u1ptest");
+    const wallet = mockWallet();
+    const calls: string[] = [];
+    const client = new L402Client({
+      wallet,
+      hooks: {
+        onChallenge: (event) => {
+          calls.push("challenge");
+          expect(event).toMatchObject({
+            amountSats: 1000,
+            domain: "api.example.com",
+            path: "/api/v1/data",
+            wallet,
+            challenge: { macaroon: "mac123", invoice: "lnbc10u1ptest" },
+          });
+        },
+        beforePayment: async () => {
+          calls.push("before");
+          expect(wallet.payInvoice).not.toHaveBeenCalled();
+        },
+        onPaymentSucceeded: (_event, record) => {
+          calls.push("paid");
+          expect(record.preimage).toBe("abc123def456");
+        },
+        onRetryResponse: (_event, response) => {
+          calls.push(`retry ${response.status}`);
+        },
+        onPaymentFailed: () => {
+          calls.push("failed");
+        },
+      },
+    });
+
+    await client.get("https://api.example.com/api/v1/data");
+    expect(calls).toEqual(["challenge", "before", "paid", "retry 200"]);
+  });
+
+  it("reports a settled payment to onPaymentSucceeded even if the retry fails", async () => {
+    let calls = 0;
+    globalThis.fetch = vi.fn().mockImplementation(async () => {
+      if (calls++ > 0) throw new TypeError("fetch failed");
+      return new Response("Payment Required", {
+        status: 402,
+        headers: {
+          "WWW-Authenticate": 'L402 macaroon="mac123", invoice="lnbc10u1ptest"',
+        },
+      });
+    });
+    const onPaymentSucceeded = vi.fn();
+    const onPaymentFailed = vi.fn();
+    const client = new L402Client({
+      wallet: mockWallet(),
+      hooks: { onPaymentSucceeded, onPaymentFailed },
+    });
+
+    await expect(
+      client.get("https://api.example.com/api/v1/data"),
+    ).rejects.toThrow("fetch failed");
+    expect(onPaymentSucceeded).toHaveBeenCalledWith(
+      expect.objectContaining({ amountSats: 1000 }),
+      client.spendingLog.records[0],
+    );
+    expect(onPaymentFailed).not.toHaveBeenCalled();
+  });
+
+  it("throws PaymentVetoedError when beforePayment returns false", async () => {
+    globalThis.fetch = mockL402FetchWithInvoice("lnbc10u1ptest");
+    const wallet = mockWallet();
+    const budget = new BudgetController();
+    const client = new L402Client({
+      wallet,
+      budget,
+      hooks: { beforePayment: async () => false },
+    });
+
+    await expect(
+      client.get("https://api.example.com/api/v1/data"),
+    ).rejects.toThrow(PaymentVetoedError);
+    expect(wallet.payInvoice).not.toHaveBeenCalled();
+    expect(budget.spentLastDay()).toBe(0);
+    expect(client.spendingLog.length).toBe(0);
+  });
+
+  it("reports a failed payment to onPaymentFailed", async () => {
+    globalThis.fetch = mockL402FetchWithInvoice("lnbc10u1ptest");
+    const onPaymentFailed = vi.fn();
+    const client = new L402Client({
+      wallet: failingWallet("no route"),
+      hooks: { onPaymentFailed },
+    });
+
+    await expect(
+      client.get("https://api.example.com/api/v1/data"),
+    ).rejects.toThrow(PaymentFailedError);
+    expect(onPaymentFailed).toHaveBeenCalledWith(
+      expect.objectContaining({ amountSats: 1000 }),
+      expect.any(PaymentFailedError),
+    );
+  });
+
+  // ── Approval ──
+
+  function approvalProvider(decision: boolean | "never"): ApprovalProvider {
+    return {
+      requestApproval: vi.fn().mockImplementation(() =>
+        decision === "never" ? new Promise(() => {}) : Promise.resolve(decision),
+      ),
+    };
+  }
+
+  it("pays once the approval provider approves", async () => {
+    globalThis.fetch = mockL402FetchWithInvoice("lnbc10u1ptest");
+    const provider = approvalProvider(true);
+    const client = new L402Client({ wallet: mockWallet(), approval: { provider } });
+
+    const response = await client.get("https://api.example.com/api/v1/data");
+
+    expect(response.status).toBe(200);
+    expect(provider.requestApproval).toHaveBeenCalledWith(
+      expect.objectContaining({
+        domain: "api.example.com",
+        amountSats: 1000,
+        reasons: ["above_threshold"],
+      }),
+      expect.any(AbortSignal),
+    );
+  });
+
+  it("throws PaymentNotApprovedError on denial without touching the budget", async () => {
+    globalThis.fetch = mockL402FetchWithInvoice("lnbc10u1ptest");
+    const wallet = mockWallet();
+    const budget = new BudgetController();
+    const client = new L402Client({
+      wallet,
+      budget,
+      approval: { provider: approvalProvider(false) },
+    });
+
+    const error = await client
+      .get("https://api.example.com/api/v1/data")
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(PaymentNotApprovedError);
+    expect((error as PaymentNotApprovedError).outcome).toBe("denied");
+    expect(wallet.payInvoice).not.toHaveBeenCalled();
+    expect(budget.spentLastDay()).toBe(0);
+    expect(client.spendingLog.length).toBe(0);
+  });
+
+  it("denies when no decision arrives before the timeout", async () => {
+    globalThis.fetch = mockL402FetchWithInvoice("lnbc10u1ptest");
+    const wallet = mockWallet();
+    const client = new L402Client({
+      wallet,
+      approval: { provider: approvalProvider("never"), timeoutMs: 10 },
+    });
+
+    const error = await client
+      .get("https://api.example.com/api/v1/data")
+      .catch((e: unknown) => e);
+
+    expect((error as PaymentNotApprovedError).outcome).toBe("timeout");
+    expect(wallet.payInvoice).not.toHaveBeenCalled();
+  });
+
+  it("only asks above the threshold or for a new domain", async () => {
+    globalThis.fetch = mockL402FetchWithInvoice("lnbc10u1ptest");
+    const provider = approvalProvider(true);
+    const client = new L402Client({
+      wallet: mockWallet(),
+      approval: { provider, aboveSats: 5000, newDomains: true },
+    });
+
+    await client.get("https://api.example.com/api/v1/data");
+    expect(provider.requestApproval).toHaveBeenCalledWith(
+      expect.objectContaining({ reasons: ["new_domain"] }),
+      expect.any(AbortSignal),
+    );
+
+    // Same domain, already paid, below the threshold: no prompt.
+    await client.get("https://api.example.com/other/v2/data");
+    expect(provider.requestApproval).toHaveBeenCalledOnce();
+  });
+
+  it("with only newDomains, asks once per domain", async () => {
+    globalThis.fetch = mockL402FetchWithInvoice("lnbc10u1ptest");
+    const provider = approvalProvider(true);
+    const client = new L402Client({
+      wallet: mockWallet(),
+      approval: { provider, newDomains: true },
+    });
+
+    await client.get("https://api.example.com/api/v1/data");
+    await client.get("https://api.example.com/other/v2/data");
+
+    expect(provider.requestApproval).toHaveBeenCalledOnce();
+    expect(provider.requestApproval).toHaveBeenCalledWith(
+      expect.objectContaining({ reasons: ["new_domain"] }),
+      expect.any(AbortSignal),
+    );
+  });
+
+  it("checks the budget again once the payment is approved", async () => {
+    globalThis.fetch = mockL402FetchWithInvoice("lnbc10u1ptest");
+    const wallet = mockWallet();
+    const budget = new BudgetController({ maxSatsPerDay: 1500 });
+    const provider: ApprovalProvider = {
+      // Another request spends while this one waits for a decision.
+      requestApproval: async () => {
+        await budget.recordPayment(1000, "api.example.com");
+        return true;
+      },
+    };
+    const client = new L402Client({ wallet, budget, approval: { provider } });
+
+    await expect(
+      client.get("https://api.example.com/api/v1/data"),
+    ).rejects.toThrow(BudgetExceededError);
+    expect(wallet.payInvoice).not.toHaveBeenCalled();
+    expect(budget.spentLastDay()).toBe(1000);
+  });
+
+  // ── Quotes ──
+
+  it("quotes the price of a 402 without paying", async () => {
+    const invoice = encodeTestInvoice({
+      amount: "10u",
+      preimage: PREIMAGE,
+      description: "weather report",
+    });
+    globalThis.fetch = mockL402FetchWithInvoice(invoice);
+    const wallet = mockWallet(PREIMAGE);
+    const budget = new BudgetController();
+    const client = new L402Client({ wallet, budget });
+
+    const quote = await client.quote("https://api.example.com/api/v1/data");
+
+    expect(quote).toMatchObject({
+      scheme: "l402",
+      amountSats: 1000,
+      expiresAt: decodeBolt11(invoice).expiresAt,
+      description: "weather report",
+      withinBudget: true,
+    });
+    expect(quote?.refusal).toBeUndefined();
+    expect(wallet.payInvoice).not.toHaveBeenCalled();
+    expect(budget.spentLastDay()).toBe(0);
+    expect(client.spendingLog.length).toBe(0);
+  });
+
+  it("reports the refusal when the budget would not allow the payment", async () => {
+    globalThis.fetch = mockL402FetchWithInvoice("lnbc10u1ptest");
+    const client = new L402Client({
+      wallet: mockWallet(),
+      budget: new BudgetController({ maxSatsPerRequest: 100 }),
+    });
+
+    const quote = await client.quote("https://api.example.com/api/v1/data");
+
+    expect(quote?.withinBudget).toBe(false);
+    expect(quote?.refusal).toBeInstanceOf(BudgetExceededError);
+    expect(quote?.expiresAt).toBeNull(); // fake invoice does not decode
+  });
+
+  it("reports an MPP price that does not match the invoice", async () => {
+    globalThis.fetch = vi.fn().mockResolvedValue(
+      new Response("Payment Required", {
+        status: 402,
+        headers: {
+          "WWW-Authenticate":
+            'Payment method="lightning", invoice="lnbc10u1ptest", amount="1"',
+        },
+      }),
+    );
+    const client = new L402Client({ wallet: mockWallet(), budget: null });
+
+    const quote = await client.quote("https://api.example.com/api/v1/data");
+
+    expect(quote?.amountSats).toBe(1000);
+    expect(quote?.withinBudget).toBe(false);
+    expect(quote?.refusal).toBeInstanceOf(AmountMismatchError);
+  });
+
+  it("quotes the new challenge when the server rejects a cached credential", async () => {
+    const fetchMock = vi.fn().mockImplementation(
+      async (_url: string, init?: RequestInit) => {
+        if (new Headers(init?.headers).has("Authorization")) {
+          return new Response("Unauthorized", { status: 401 });
+        }
+        return new Response("Payment Required", {
+          status: 402,
+          headers: {
+            "WWW-Authenticate": 'L402 macaroon="mac456", invoice="lnbc10u1ptest"',
+          },
+        });
+      },
+    );
+    globalThis.fetch = fetchMock;
+    const credentialCache = new CredentialCache();
+    credentialCache.put("https://api.example.com", "/api/v1/data", "mac123", "aa");
+    const wallet = mockWallet();
+    const client = new L402Client({ wallet, credentialCache });
+
+    const quote = await client.quote("https://api.example.com/api/v1/data");
+
+    expect(quote).toMatchObject({ amountSats: 1000, withinBudget: true });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(new Headers(fetchMock.mock.calls[1][1].headers).has("Authorization")).toBe(
+      false,
+    );
+    expect(credentialCache.get("https://api.example.com", "/api/v1/data")).toBeNull();
+    expect(wallet.payInvoice).not.toHaveBeenCalled();
+  });
+
+  it("returns null when the request needs no payment", async () => {
+    globalThis.fetch = vi
+      .fn()
+      .mockResolvedValue(new Response("free", { status: 200 }));
+    const client = new L402Client({ wallet: mockWallet() });
+
+    expect(await client.quote("https://api.example.com/free")).toBeNull();
+  });
+
+  // ── Cancellation ──
+
+  /** A wallet that sends at once and only hears back when aborted. */
+  function hangingWallet(): Wallet {
+    return {
+      supportsPreimage: true,
+      payInvoice: vi.fn().mockImplementation(
+        (bolt11: string, options?: { signal?: AbortSignal }) =>
+          new Promise((_resolve, reject) => {
+            options?.signal?.addEventListener("abort", () =>
+              reject(new PaymentOutcomeUnknownError(bolt11, options.signal!.reason)),
+            );
+          }),
+      ),
+    };
+  }
+
+  it("pays nothing when the request is aborted before the wallet is called", async () => {
+    globalThis.fetch = mockL402FetchWithInvoice("lnbc10u1ptest");
+    const wallet = mockWallet();
+    const budget = new BudgetController();
+    const controller = new AbortController();
+    const client = new L402Client({
+      wallet,
+      budget,
+      hooks: { beforePayment: () => controller.abort(new Error("user cancelled")) },
+    });
+
+    await expect(
+      client.get("https://api.example.com/api/v1/data", {
+        signal: controller.signal,
+      }),
+    ).rejects.toThrow("user cancelled");
+    expect(wallet.payInvoice).not.toHaveBeenCalled();
+    expect(budget.spentLastDay()).toBe(0);
+    expect(client.spendingLog.length).toBe(0);
+  });
+
+  it("passes the request signal to the wallet", async () => {
+    globalThis.fetch = mockL402FetchWithInvoice("lnbc10u1ptest");
+    const wallet = mockWallet();
+    const controller = new AbortController();
+    const client = new L402Client({ wallet });
+
+    await client.get("https://api.example.com/api/v1/data", {
+      signal: controller.signal,
+    });
+    expect(wallet.payInvoice).toHaveBeenCalledWith("lnbc10u1ptest", {
+      signal: controller.signal,
+    });
+  });
+
+  it("reports an unknown outcome when the deadline passes mid-payment", async () => {
+    globalThis.fetch = mockL402FetchWithInvoice("lnbc10u1ptest");
+    const wallet = hangingWallet();
+    const budget = new BudgetController();
+    const client = new L402Client({ wallet, budget, deadlineMs: 20 });
+
+    const error = await client
+      .get("https://api.example.com/api/v1/data")
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(PaymentOutcomeUnknownError);
+    expect((error as PaymentOutcomeUnknownError).reason).toMatchObject({
+      name: "TimeoutError",
+    });
+    // It may still settle: budgeted as spent, logged as unknown.
+    expect(budget.spentLastDay()).toBe(1000);
+    expect(client.spendingLog.records[0]).toMatchObject({
+      success: false,
+      outcomeUnknown: true,
+    });
+  });
+
+  it("lets the caller's signal abort reading the body under a deadline", async () => {
+    // A body that streams until the request's signal aborts it.
+    globalThis.fetch = vi.fn().mockImplementation(
+      async (_url: string, init?: RequestInit) =>
+        new Response(
+          new ReadableStream({
+            start(stream) {
+              stream.enqueue(new TextEncoder().encode("partial"));
+              init?.signal?.addEventListener("abort", () =>
+                stream.error(init.signal?.reason),
+              );
+            },
+          }),
+        ),
+    );
+    const controller = new AbortController();
+    const client = new L402Client({ wallet: mockWallet(), deadlineMs: 5_000 });
+
+    const response = await client.get("https://api.example.com/stream", {
+      signal: controller.signal,
+    });
+    const body = response.text();
+    controller.abort(new Error("caller gave up"));
+
+    await expect(body).rejects.toThrow("caller gave up");
+  });
+
+  it("stops waiting for approval when the request is aborted", async () => {
+    globalThis.fetch = mockL402FetchWithInvoice("lnbc10u1ptest");
+    const wallet = mockWallet();
+    const provider: ApprovalProvider = {
+      requestApproval: () => new Promise(() => {}),
+    };
+    const client = new L402Client({
+      wallet,
+      approval: { provider, timeoutMs: 60_000 },
+    });
+    const controller = new AbortController();
+
+    const pending = client.get("https://api.example.com/api/v1/data", {
+      signal: controller.signal,
+    });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    controller.abort(new Error("gave up"));
+
+    await expect(pending).rejects.toThrow("gave up");
+    expect(wallet.payInvoice).not.toHaveBeenCalled();
+  });
+
+  // ── Injected fetch ──
+
+  it("sends every request through the injected fetch", async () => {
+    globalThis.fetch = vi.fn().mockRejectedValue(new Error("global fetch used"));
+    const fetch = mockL402Fetch({ via: "injected" });
+    const client = new L402Client({ wallet: mockWallet(), budget: null, fetch });
+
+    const response = await client.get("https://api.example.com/api/v1/data");
+
+    expect(await response.json()).toEqual({ via: "injected" });
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(globalThis.fetch).not.toHaveBeenCalled();
+  });
 });
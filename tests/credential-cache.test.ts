@@ -1,5 +1,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { CredentialCache } from "../src/credential-cache.js";
+import { L402Error } from "../src/errors.js";
+import { encodeTestMacaroon } from "./helpers/macaroon.js";
 
 describe("CredentialCache", () => {
   beforeEach(() => {
@@ -113,6 +115,44 @@ describe("CredentialCache", () => {
     );
   });
 
+  it("echoes the MPP challenge id, realm, request and expires", () => {
+    const cache = new CredentialCache();
+    const cred = cache.put("example.com", "/api", null, "abcdef01", undefined, {
+      invoice: "lnbc1",
+      id: "ch_1",
+      realm: "api.example.com",
+      request: "eyJhIjoxfQ",
+      expires: "2026-01-15T12:05:00Z",
+      amount: "100",
+    });
+    expect(CredentialCache.authorizationHeader(cred)).toBe(
+      'Payment id="ch_1", realm="api.example.com", method="lightning", ' +
+        'request="eyJhIjoxfQ", expires="2026-01-15T12:05:00Z", preimage="abcdef01"',
+    );
+  });
+
+  it("escapes echoed MPP params and refuses control characters", () => {
+    const base = {
+      scheme: "payment" as const,
+      macaroon: null,
+      preimage: "abcdef01",
+      createdAt: Date.now(),
+      expiresAt: null,
+    };
+    expect(
+      CredentialCache.authorizationHeader({
+        ...base,
+        challenge: { realm: 'a"b\\c' },
+      }),
+    ).toBe('Payment realm="a\\"b\\\\c", method="lightning", preimage="abcdef01"');
+    expect(() =>
+      CredentialCache.authorizationHeader({
+        ...base,
+        challenge: { id: "x\r\nX-Injected: 1" },
+      }),
+    ).toThrow(L402Error);
+  });
+
   it("builds L402 authorization header for l402 scheme credential", () => {
     const cred = {
       scheme: "l402" as const,
@@ -151,4 +191,169 @@ describe("CredentialCache", () => {
       "Invalid preimage: expected hex string",
     );
   });
+
+  // ── Caveat-aware expiry and scoping ──
+
+  it("evicts a rejected credential wherever it is keyed", () => {
+    const cache = new CredentialCache();
+    const cred = cache.put("example.com", "/api/v1/data", "mac1", "aabb");
+    cache.put("example.com", "/other/v1", "mac2", "ccdd");
+
+    cache.evict(cred);
+    expect(cache.get("example.com", "/api/v1/data")).toBeNull();
+    expect(cache.size).toBe(1);
+  });
+
+  it("takes expiry from a valid_until caveat instead of the default TTL", () => {
+    const cache = new CredentialCache({ defaultTtlMs: 3_600_000 });
+    // Valid for 6 hours — well past the 1-hour default.
+    const validUntil = Math.floor(Date.now() / 1000) + 6 * 3600;
+    const mac = encodeTestMacaroon([`weather_valid_until=${validUntil}`]);
+
+    const cred = cache.put("example.com", "/weather/today", mac, "pre");
+    expect(cred.expiresAt).toBe(validUntil * 1000);
+
+    vi.advanceTimersByTime(2 * 3_600_000);
+    expect(cache.get("example.com", "/weather/today")).not.toBeNull();
+    vi.advanceTimersByTime(5 * 3_600_000);
+    expect(cache.get("example.com", "/weather/today")).toBeNull();
+  });
+
+  it("expires a credential early when its caveat says so", () => {
+    const cache = new CredentialCache();
+    const mac = encodeTestMacaroon(["time < 2026-01-15T12:05:00Z"]);
+
+    cache.put("example.com", "/api", mac, "pre");
+    vi.advanceTimersByTime(6 * 60_000);
+    expect(cache.get("example.com", "/api")).toBeNull();
+  });
+
+  it("uses the earliest of several expiry caveats", () => {
+    const cache = new CredentialCache();
+    const now = Math.floor(Date.now() / 1000);
+    const mac = encodeTestMacaroon([
+      `valid_until=${now + 600}`,
+      `news_valid_until=${now + 60}`,
+    ]);
+    expect(cache.put("example.com", "/api", mac, "pre").expiresAt).toBe(
+      (now + 60) * 1000,
+    );
+  });
+
+  it("lets an explicit expiresAt override the caveat", () => {
+    const cache = new CredentialCache();
+    const mac = encodeTestMacaroon(["valid_until=1893456000"]);
+    expect(cache.put("example.com", "/api", mac, "pre", null).expiresAt).toBeNull();
+  });
+
+  it("falls back to the default TTL for opaque macaroons", () => {
+    const cache = new CredentialCache({ defaultTtlMs: 60_000 });
+    expect(cache.put("example.com", "/api", "mac123", "pre").expiresAt).toBe(
+      Date.now() + 60_000,
+    );
+  });
+
+  it("reuses a credential for other paths naming a service in its caveat", () => {
+    const cache = new CredentialCache();
+    const mac = encodeTestMacaroon(["services=weather:0,news:1"]);
+    const cred = cache.put("example.com", "/v1/weather/today", mac, "pre");
+    expect(cred.scheme === "l402" && cred.services).toEqual(["weather", "news"]);
+
+    // Different two-segment prefix, but it names a granted service.
+    expect(cache.get("example.com", "/v2/news/latest")?.macaroon).toBe(mac);
+    // Not a granted service, and not on another domain.
+    expect(cache.get("example.com", "/v2/sports")).toBeNull();
+    expect(cache.get("other.com", "/v2/news/latest")).toBeNull();
+  });
+
+  it("returns the path's own credential whatever service its caveat names", () => {
+    const cache = new CredentialCache();
+    // Aperture-style service name from config, not a path segment.
+    const mac = encodeTestMacaroon(["services=myapi:0"]);
+    cache.put("example.com", "/api/v1/data", mac, "pre");
+
+    expect(cache.get("example.com", "/api/v1/data")?.macaroon).toBe(mac);
+    expect(cache.get("example.com", "/api/v1/other")?.macaroon).toBe(mac);
+    // Outside its own key, only a path naming the service reuses it.
+    expect(cache.get("example.com", "/v2/data")).toBeNull();
+    expect(cache.get("example.com", "/v2/myapi/data")?.macaroon).toBe(mac);
+  });
+
+  it("does not reuse an expired service-scoped credential", () => {
+    const cache = new CredentialCache({ defaultTtlMs: 60_000 });
+    const mac = encodeTestMacaroon(["services=weather:0"]);
+    cache.put("example.com", "/v1/weather", mac, "pre");
+
+    vi.advanceTimersByTime(61_000);
+    expect(cache.get("example.com", "/v2/weather")).toBeNull();
+  });
+
+  // ── Scoping ──
+
+  it("never shares a credential across schemes or ports", () => {
+    const cache = new CredentialCache();
+    cache.put("https://x:8443", "/a/b", "mac1", "pre");
+
+    expect(cache.get("http://x", "/a/b/c")).toBeNull();
+    expect(cache.get("x", "/a/b/c")).toBeNull();
+    expect(cache.get("https://x:8443", "/a/b/c")?.macaroon).toBe("mac1");
+  });
+
+  it("treats a bare hostname as its https origin", () => {
+    const cache = new CredentialCache();
+    cache.put("Example.com", "/api/v1", "mac1", "pre");
+    expect(cache.get("https://example.com:443", "/api/v1")?.macaroon).toBe("mac1");
+    expect(cache.keyFor("example.com", "/api/v1/x")).toBe(
+      "https://example.com::/api/v1",
+    );
+  });
+
+  it("shares one credential per origin with scope 'origin'", () => {
+    const cache = new CredentialCache({ scope: "origin" });
+    cache.put("example.com", "/a/b/c", "mac1", "pre");
+    expect(cache.get("example.com", "/z")?.macaroon).toBe("mac1");
+    expect(cache.get("other.com", "/z")).toBeNull();
+  });
+
+  it("keys every path separately with scope 'exact-path'", () => {
+    const cache = new CredentialCache({ scope: "exact-path" });
+    cache.put("example.com", "/api/v1/a", "mac1", "pre");
+    expect(cache.get("example.com", "/api/v1/a")?.macaroon).toBe("mac1");
+    expect(cache.get("example.com", "/api/v1/b")).toBeNull();
+  });
+
+  it("shares MPP credentials by realm with scope 'realm'", () => {
+    const cache = new CredentialCache({ scope: "realm" });
+    cache.put("example.com", "/one", null, "aa", undefined, {
+      invoice: "lnbc1",
+      realm: "weather",
+    });
+
+    // A 402 elsewhere naming the same realm finds it...
+    expect(cache.get("example.com", "/other/path", "weather")?.preimage).toBe("aa");
+    expect(cache.get("example.com", "/other/path", "news")).toBeNull();
+    // ...and the path it was paid for uses it up front.
+    expect(cache.get("example.com", "/one")?.preimage).toBe("aa");
+    expect(cache.get("example.com", "/two")).toBeNull();
+  });
+
+  it("scopes with a custom function and per-domain overrides", () => {
+    const scope = vi.fn(({ path }: { path: string }) => path.split("/")[1] ?? "");
+    const cache = new CredentialCache({
+      scope,
+      domainScopes: { "Exact.example.com": "exact-path" },
+    });
+
+    cache.put("https://example.com", "/tenant-a/x", "mac1", "pre");
+    expect(cache.get("https://example.com", "/tenant-a/y/z")?.macaroon).toBe("mac1");
+    expect(scope).toHaveBeenCalledWith({
+      origin: "https://example.com",
+      hostname: "example.com",
+      path: "/tenant-a/x",
+      realm: undefined,
+    });
+
+    cache.put("exact.example.com", "/tenant-a/x", "mac2", "pre2");
+    expect(cache.get("exact.example.com", "/tenant-a/y")).toBeNull();
+  });
 });
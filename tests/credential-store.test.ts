@@ -0,0 +1,156 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  mkdtempSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { CredentialCache } from "../src/credential-cache.js";
+import { StoreReadError } from "../src/errors.js";
+import {
+  FileCredentialStore,
+  MemoryCredentialStore,
+} from "../src/credential-store.js";
+
+describe("FileCredentialStore", () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-01-15T12:00:00Z"));
+    dir = mkdtempSync(join(tmpdir(), "l402-creds-"));
+    path = join(dir, "nested", "credentials.json");
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("keeps credentials across cache instances", async () => {
+    const first = new CredentialCache({ store: new FileCredentialStore(path) });
+    first.put("example.com", "/api/v1/data", "mac123", "aabb");
+    await first.flush();
+
+    // A new process: fresh cache, same file.
+    const second = new CredentialCache({ store: new FileCredentialStore(path) });
+    const cred = second.get("example.com", "/api/v1/data");
+    expect(cred?.macaroon).toBe("mac123");
+    expect(cred?.preimage).toBe("aabb");
+  });
+
+  it("skips expired entries on load and drops them on the next write", async () => {
+    const cache = new CredentialCache({
+      store: new FileCredentialStore(path),
+      defaultTtlMs: 60_000,
+    });
+    cache.put("a.com", "/x", "mac1", "aa");
+    cache.put("b.com", "/x", "mac2", "bb", null);
+    await cache.flush();
+
+    vi.setSystemTime(Date.now() + 61_000);
+    const store = new FileCredentialStore(path);
+    expect(store.load().map(([key]) => key)).toEqual(["https://b.com::/x"]);
+
+    await store.set("https://c.com::/x", { ...store.load()[0][1] });
+    const onDisk = JSON.parse(readFileSync(path, "utf-8"));
+    expect(onDisk.credentials).toHaveLength(2);
+  });
+
+  it("rewrites the file without expired entries when load() finds any", async () => {
+    const cache = new CredentialCache({
+      store: new FileCredentialStore(path),
+      defaultTtlMs: 60_000,
+    });
+    cache.put("a.com", "/x", "mac1", "aa");
+    cache.put("b.com", "/x", "mac2", "bb", null);
+    await cache.flush();
+
+    vi.setSystemTime(Date.now() + 61_000);
+    new FileCredentialStore(path).load();
+
+    await vi.waitFor(() => {
+      const onDisk = JSON.parse(readFileSync(path, "utf-8"));
+      expect(onDisk.credentials.map(([key]: [string]) => key)).toEqual([
+        "https://b.com::/x",
+      ]);
+      expect(readdirSync(join(dir, "nested"))).toEqual(["credentials.json"]);
+    });
+  });
+
+  it("removes evicted and cleared credentials from the file", async () => {
+    const store = new FileCredentialStore(path);
+    const cache = new CredentialCache({ store, maxSize: 1 });
+    cache.put("a.com", "/x", "mac1", "aa");
+    cache.put("b.com", "/x", "mac2", "bb");
+    await cache.flush();
+    expect(store.load().map(([key]) => key)).toEqual(["https://b.com::/x"]);
+
+    cache.clear();
+    await cache.flush();
+    expect(store.load()).toEqual([]);
+  });
+
+  it("merges writes from two stores sharing the file", async () => {
+    const a = new CredentialCache({ store: new FileCredentialStore(path) });
+    const b = new CredentialCache({ store: new FileCredentialStore(path) });
+    a.put("a.com", "/x", "mac1", "aa");
+    b.put("b.com", "/x", "mac2", "bb");
+    await Promise.all([a.flush(), b.flush()]);
+
+    expect(new FileCredentialStore(path).load()).toHaveLength(2);
+  });
+
+  it("writes atomically, leaving no temp files, with owner-only permissions", async () => {
+    const cache = new CredentialCache({ store: new FileCredentialStore(path) });
+    cache.put("a.com", "/x", "mac1", "aa");
+    await cache.flush();
+    expect(readdirSync(join(dir, "nested"))).toEqual(["credentials.json"]);
+    if (process.platform !== "win32") {
+      expect(statSync(path).mode & 0o777).toBe(0o600);
+    }
+  });
+
+  it("treats a missing file as empty", () => {
+    expect(new FileCredentialStore(path).load()).toEqual([]);
+  });
+
+  it("refuses a corrupt file rather than overwriting it", async () => {
+    const corrupt = join(dir, "corrupt.json");
+    writeFileSync(corrupt, "{not json");
+    const store = new FileCredentialStore(corrupt);
+
+    expect(() => new CredentialCache({ store })).toThrow(StoreReadError);
+    await expect(store.delete("https://a.com::/x")).rejects.toThrow(
+      StoreReadError,
+    );
+    expect(readFileSync(corrupt, "utf-8")).toBe("{not json");
+  });
+
+  it("writes in the background and reports failures from flush()", async () => {
+    const store = new FileCredentialStore(path);
+    const cache = new CredentialCache({ store });
+    cache.put("a.com", "/x", "mac1", "aa");
+    // The cache answers at once; the file catches up.
+    expect(cache.get("a.com", "/x")?.macaroon).toBe("mac1");
+    await cache.flush();
+
+    writeFileSync(path, "{not json");
+    cache.put("b.com", "/x", "mac2", "bb");
+    await expect(cache.flush()).rejects.toThrow(StoreReadError);
+    await expect(cache.flush()).resolves.toBeUndefined();
+  });
+});
+
+describe("MemoryCredentialStore", () => {
+  it("warms a new cache sharing the same store", () => {
+    const store = new MemoryCredentialStore();
+    new CredentialCache({ store }).put("a.com", "/x", "mac1", "aa");
+    expect(new CredentialCache({ store }).get("a.com", "/x")?.macaroon).toBe("mac1");
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Test-only BOLT11 encoder.
+ *
+ * Produces invoices with a valid bech32 checksum and real tagged fields, so
+ * tests can exercise `decodeBolt11` and the client's payment-hash / expiry
+ * checks. The signature is all zeroes — nothing in this package verifies it.
+ */
+
+import { createHash } from "node:crypto";
+
+const CHARSET = "qpzry9x8gf2tvdw0s3jn54khce6mua7l";
+const GENERATOR = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+
+function polymod(values: number[]): number {
+  let chk = 1;
+  for (const v of values) {
+    const top = chk >>> 25;
+    chk = ((chk & 0x1ffffff) << 5) ^ v;
+    for (let i = 0; i < 5; i++) {
+      if ((top >>> i) & 1) chk ^= GENERATOR[i];
+    }
+  }
+  return chk >>> 0;
+}
+
+function hrpExpand(hrp: string): number[] {
+  const out: number[] = [];
+  for (let i = 0; i < hrp.length; i++) out.push(hrp.charCodeAt(i) >> 5);
+  out.push(0);
+  for (let i = 0; i < hrp.length; i++) out.push(hrp.charCodeAt(i) & 31);
+  return out;
+}
+
+function bytesToWords(bytes: Uint8Array): number[] {
+  const words: number[] = [];
+  let acc = 0;
+  let bits = 0;
+  for (const b of bytes) {
+    acc = (acc << 8) | b;
+    bits += 8;
+    while (bits >= 5) {
+      bits -= 5;
+      words.push((acc >> bits) & 31);
+    }
+    acc &= (1 << bits) - 1;
+  }
+  if (bits > 0) words.push((acc << (5 - bits)) & 31);
+  return words;
+}
+
+function intToWords(n: number, minLength = 1): number[] {
+  const words: number[] = [];
+  while (n > 0) {
+    words.unshift(n % 32);
+    n = Math.floor(n / 32);
+  }
+  while (words.length < minLength) words.unshift(0);
+  return words;
+}
+
+function field(tag: string, words: number[]): number[] {
+  return [CHARSET.indexOf(tag), words.length >> 5, words.length & 31, ...words];
+}
+
+/** sha256(preimage) as hex — the payment hash a preimage unlocks. */
+export function paymentHashFor(preimageHex: string): string {
+  return createHash("sha256").update(Buffer.from(preimageHex, "hex")).digest("hex");
+}
+
+export interface TestInvoiceOptions {
+  /** HRP amount, e.g. "10u" (1000 sats). Omit for an amountless invoice. */
+  amount?: string;
+  network?: string;
+  /** Creation time in seconds (default: now). */
+  timestamp?: number;
+  /** Payment hash as hex (default: derived from `preimage`). */
+  paymentHash?: string;
+  /** Preimage whose hash becomes the payment hash. */
+  preimage?: string;
+  /** Expiry in seconds (default: field omitted, i.e. 3600). */
+  expiry?: number;
+  description?: string;
+  payeeNodeKey?: string;
+  /** Raw extra tagged fields: [bech32 tag char, 5-bit words]. */
+  extraFields?: Array<[string, number[]]>;
+}
+
+/** Encode a checksum-valid BOLT11 invoice from the given fields. */
+export function encodeTestInvoice(options: TestInvoiceOptions = {}): string {
+  const hrp = `ln${options.network ?? "bc"}${options.amount ?? ""}`;
+  const timestamp = options.timestamp ?? Math.floor(Date.now() / 1000);
+  const paymentHash =
+    options.paymentHash ??
+    paymentHashFor(options.preimage ?? "00".repeat(32));
+
+  const data: number[] = [...intToWords(timestamp, 7)];
+  data.push(...field("p", bytesToWords(Buffer.from(paymentHash, "hex"))));
+  if (options.description !== undefined) {
+    data.push(...field("d", bytesToWords(new TextEncoder().encode(options.description))));
+  }
+  if (options.expiry !== undefined) {
+    data.push(...field("x", intToWords(options.expiry)));
+  }
+  if (options.payeeNodeKey !== undefined) {
+    data.push(...field("n", bytesToWords(Buffer.from(options.payeeNodeKey, "hex"))));
+  }
+  for (const [tag, words] of options.extraFields ?? []) {
+    data.push(...field(tag, words));
+  }
+  data.push(...bytesToWords(new Uint8Array(65)));
+
+  const mod = polymod([...hrpExpand(hrp), ...data, 0, 0, 0, 0, 0, 0]) ^ 1;
+  const checksum = Array.from({ length: 6 }, (_, i) => (mod >> (5 * (5 - i))) & 31);
+
+  return hrp + "1" + [...data, ...checksum].map((w) => CHARSET[w]).join("");
+}
@@ -0,0 +1,39 @@
+/**
+ * Test-only wallet and L402 server mocks for the fetch and axios wrappers.
+ *
+ * The server answers 402 with a real (test-encoded) invoice until a request
+ * carries an L402 Authorization header, then returns `{"result":"ok"}`.
+ */
+
+import { vi } from "vitest";
+import type { Wallet } from "../../src/types.js";
+import { encodeTestInvoice } from "./invoice.js";
+
+/** The preimage `mockWallet` returns; it matches `mockL402Server`'s invoices. */
+export const PREIMAGE = "11".repeat(32);
+
+export function mockWallet(): Wallet {
+  return {
+    supportsPreimage: true,
+    payInvoice: vi.fn().mockResolvedValue(PREIMAGE),
+  };
+}
+
+/** A server that answers 402 until it sees an L402 Authorization header. */
+export function mockL402Server(amount = "10u") {
+  const invoice = encodeTestInvoice({ amount, preimage: PREIMAGE });
+  return vi.fn().mockImplementation(async (_url: string, init?: RequestInit) => {
+    if (!new Headers(init?.headers).get("Authorization")?.startsWith("L402 ")) {
+      return new Response("Payment Required", {
+        status: 402,
+        headers: {
+          "WWW-Authenticate": `L402 macaroon="mac123", invoice="${invoice}"`,
+        },
+      });
+    }
+    return new Response(JSON.stringify({ result: "ok" }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  });
+}
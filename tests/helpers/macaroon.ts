@@ -0,0 +1,33 @@
+/**
+ * Test-only V2 macaroon encoder.
+ *
+ * Produces structurally valid binary macaroons carrying the given first-party
+ * caveats. The signature is all zeroes — nothing in this package verifies it.
+ */
+
+function field(type: number, data: Uint8Array): number[] {
+  const out = [type];
+  let length = data.length;
+  do {
+    let byte = length & 0x7f;
+    length >>>= 7;
+    if (length > 0) byte |= 0x80;
+    out.push(byte);
+  } while (length > 0);
+  return [...out, ...data];
+}
+
+const text = (s: string) => new TextEncoder().encode(s);
+
+/** Encode a base64 V2 macaroon with the given first-party caveats. */
+export function encodeTestMacaroon(
+  caveats: string[] = [],
+  identifier: Uint8Array = text("test-id"),
+): string {
+  const bytes = [2, ...field(1, text("test")), ...field(2, identifier), 0];
+  for (const caveat of caveats) {
+    bytes.push(...field(2, text(caveat)), 0);
+  }
+  bytes.push(0, ...field(6, new Uint8Array(32)));
+  return Buffer.from(bytes).toString("base64");
+}
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { L402Client } from "../src/client.js";
+import { createL402Fetch, installGlobalFetch } from "../src/l402-fetch.js";
+import { mockL402Server, mockWallet } from "./helpers/l402-server.js";
+
+describe("createL402Fetch", () => {
+  const originalFetch = globalThis.fetch;
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  it("pays a 402 like L402Client.fetch", async () => {
+    const server = mockL402Server();
+    const wallet = mockWallet();
+    const fetch = createL402Fetch({ wallet, fetch: server });
+
+    const response = await fetch("https://api.example.com/data");
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ result: "ok" });
+    expect(wallet.payInvoice).toHaveBeenCalledTimes(1);
+    expect(server).toHaveBeenCalledTimes(2);
+  });
+
+  it("shares the given client's cache and spending log", async () => {
+    const server = mockL402Server();
+    const client = new L402Client({ wallet: mockWallet(), fetch: server });
+    const fetch = createL402Fetch(client);
+
+    await fetch("https://api.example.com/data");
+    await client.fetch("https://api.example.com/data");
+
+    expect(client.spendingLog.length).toBe(1);
+    expect(server).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe("installGlobalFetch", () => {
+  const originalFetch = globalThis.fetch;
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  it("routes globalThis.fetch through the client until uninstalled", async () => {
+    const server = mockL402Server();
+    globalThis.fetch = server;
+    const wallet = mockWallet();
+
+    const installed = installGlobalFetch({ wallet });
+    try {
+      expect(globalThis.fetch).toBe(installed.fetch);
+      const response = await fetch("https://api.example.com/data");
+      expect(response.status).toBe(200);
+    } finally {
+      installed.uninstall();
+    }
+
+    // The client sent through the fetch it replaced, not back into itself.
+    expect(server).toHaveBeenCalledTimes(2);
+    expect(wallet.payInvoice).toHaveBeenCalledTimes(1);
+    expect(globalThis.fetch).toBe(server);
+  });
+
+  it("unwinds nested installs", async () => {
+    const server = mockL402Server();
+    globalThis.fetch = server;
+
+    const outer = installGlobalFetch({ wallet: mockWallet() });
+    const inner = installGlobalFetch({ wallet: mockWallet() });
+    const response = await fetch("https://api.example.com/data");
+    inner.uninstall();
+    expect(globalThis.fetch).toBe(outer.fetch);
+    outer.uninstall();
+
+    expect(response.status).toBe(200);
+    expect(server).toHaveBeenCalledTimes(2);
+    expect(globalThis.fetch).toBe(server);
+  });
+
+  it("leaves a fetch installed by someone else in place", () => {
+    const installed = installGlobalFetch({ wallet: mockWallet() });
+    const other = vi.fn();
+    globalThis.fetch = other;
+
+    installed.uninstall();
+
+    expect(globalThis.fetch).toBe(other);
+  });
+});
@@ -0,0 +1,182 @@
+import { describe, it, expect } from "vitest";
+import {
+  decodeMacaroon,
+  macaroonExpiry,
+  macaroonServices,
+  parseCaveat,
+} from "../src/macaroon.js";
+import { MacaroonParseError } from "../src/errors.js";
+import { encodeTestMacaroon } from "./helpers/macaroon.js";
+
+// V2 binary, minted by an independent encoder (js-macaroon) with an Aperture
+// identifier (version 0, payment hash 0xaa.., token id 0xbb..), two
+// first-party caveats and one third-party caveat.
+const V2_MACAROON =
+  "AgEXaHR0cHM6Ly9hcGkuZXhhbXBsZS5jb20CQgAAqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqq7u7u7u7u7u7u7u7u7u7u7u7u7u7u7u7u7u7u7u7u7uwACGXNlcnZpY2VzPXdlYXRoZXI6MCxuZXdzOjEAAh53ZWF0aGVyX3ZhbGlkX3VudGlsPTE4OTM0NTYwMDAAARhodHRwczovL2F1dGguZXhhbXBsZS5jb20CDnRoaXJkLXBhcnR5LWlkBEjSY426pXSXZMPHLO7Q7PRt15DxIQdDXkkTaFP3bdFrLhzhqWZJcFfHPB344/nlokSwTwAr3uZQ8znZw9x6IYlhkO7mnX8W4LwAAAYgimKrprIOQpdrzJdtlx+gUUyG/qxe9i7yJVW4aF/Xu8M=";
+
+// V1 packet format — the libmacaroons README example, base64url unpadded.
+const V1_MACAROON =
+  "MDAxY2xvY2F0aW9uIGh0dHA6Ly9teWJhbmsvCjAwMjZpZGVudGlmaWVyIHdlIHVzZWQgb3VyIHNlY3JldCBrZXkKMDAxZGNpZCBhY2NvdW50ID0gMzczNTkyODU1OQowMDJmc2lnbmF0dXJlIB7-R2PykNvODB0IR3Nn4R9O7kVqZJM89mLXl3LbuCEoCg";
+
+/** Build a V1 macaroon from [key, value] packets. */
+function v1(packets: Array<[string, string]>): string {
+  const body = packets
+    .map(([key, value]) => {
+      const content = `${key} ${value}\n`;
+      return (content.length + 4).toString(16).padStart(4, "0") + content;
+    })
+    .join("");
+  return Buffer.from(body).toString("base64");
+}
+
+describe("decodeMacaroon", () => {
+  it("decodes a V2 macaroon with an L402 identifier", () => {
+    const mac = decodeMacaroon(V2_MACAROON);
+    expect(mac.format).toBe("v2");
+    expect(mac.location).toBe("https://api.example.com");
+    expect(mac.identifier).toBe("0000" + "aa".repeat(32) + "bb".repeat(32));
+    expect(mac.l402Identifier).toEqual({
+      version: 0,
+      paymentHash: "aa".repeat(32),
+      tokenId: "bb".repeat(32),
+    });
+    expect(mac.caveats).toEqual([
+      "services=weather:0,news:1",
+      "weather_valid_until=1893456000",
+    ]);
+    expect(mac.thirdPartyCaveats).toEqual([
+      {
+        id: Buffer.from("third-party-id").toString("hex"),
+        location: "https://auth.example.com",
+      },
+    ]);
+    expect(mac.signature).toBe(
+      "8a62aba6b20e42976bcc976d971fa0514c86feac5ef62ef22555b8685fd7bbc3",
+    );
+  });
+
+  it("accepts base64url without padding", () => {
+    const url = V2_MACAROON.replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+    expect(decodeMacaroon(url)).toEqual(decodeMacaroon(V2_MACAROON));
+  });
+
+  it("decodes a V1 macaroon", () => {
+    const mac = decodeMacaroon(V1_MACAROON);
+    expect(mac.format).toBe("v1");
+    expect(mac.location).toBe("http://mybank/");
+    expect(Buffer.from(mac.identifier, "hex").toString()).toBe(
+      "we used our secret key",
+    );
+    // Not the Lightning Labs layout.
+    expect(mac.l402Identifier).toBeNull();
+    expect(mac.caveats).toEqual(["account = 3735928559"]);
+    expect(mac.thirdPartyCaveats).toEqual([]);
+    expect(mac.signature).toBe(
+      "1efe4763f290dbce0c1d08477367e11f4eee456a64933cf662d79772dbb82128",
+    );
+  });
+
+  it("separates V1 third-party caveats by their vid", () => {
+    const mac = decodeMacaroon(
+      v1([
+        ["location", "loc"],
+        ["identifier", "id"],
+        ["cid", "time < 2030"],
+        ["cid", "tp-id"],
+        ["vid", "vvvv"],
+        ["cl", "https://tp.example"],
+        ["signature", "ssss"],
+      ]),
+    );
+    expect(mac.caveats).toEqual(["time < 2030"]);
+    expect(mac.thirdPartyCaveats).toEqual([
+      {
+        id: Buffer.from("tp-id").toString("hex"),
+        location: "https://tp.example",
+      },
+    ]);
+  });
+
+  it("rejects empty and non-base64 input", () => {
+    expect(() => decodeMacaroon("")).toThrow(MacaroonParseError);
+    expect(() => decodeMacaroon("not a macaroon!")).toThrow("not base64");
+  });
+
+  it("rejects a truncated V2 macaroon", () => {
+    const bytes = Buffer.from(V2_MACAROON, "base64");
+    const truncated = bytes.subarray(0, bytes.length - 10).toString("base64");
+    expect(() => decodeMacaroon(truncated)).toThrow(MacaroonParseError);
+  });
+
+  it("rejects a V1 macaroon without a signature", () => {
+    expect(() => decodeMacaroon(v1([["identifier", "id"]]))).toThrow(
+      "missing signature",
+    );
+  });
+
+  it("rejects opaque tokens that are not macaroons", () => {
+    expect(() => decodeMacaroon("mac123")).toThrow(MacaroonParseError);
+  });
+});
+
+describe("parseCaveat", () => {
+  it("splits at the first equals sign", () => {
+    expect(parseCaveat("services=weather:0,news:1")).toEqual({
+      key: "services",
+      value: "weather:0,news:1",
+    });
+    expect(parseCaveat("a=b=c")).toEqual({ key: "a", value: "b=c" });
+  });
+
+  it("trims whitespace around key and value", () => {
+    expect(parseCaveat("account = 3735928559")).toEqual({
+      key: "account",
+      value: "3735928559",
+    });
+  });
+
+  it("returns null without an equals sign", () => {
+    expect(parseCaveat("time < 2030")).toBeNull();
+  });
+});
+
+describe("macaroonServices", () => {
+  it("reads names and tiers from the services caveat", () => {
+    expect(macaroonServices(decodeMacaroon(V2_MACAROON))).toEqual([
+      { name: "weather", tier: 0 },
+      { name: "news", tier: 1 },
+    ]);
+  });
+
+  it("intersects several services caveats", () => {
+    const mac = encodeTestMacaroon(["services=a:0,b:0", "services=b:0,c:0"]);
+    expect(macaroonServices(decodeMacaroon(mac))).toEqual([{ name: "b", tier: 0 }]);
+  });
+
+  it("is empty without a services caveat", () => {
+    expect(macaroonServices(decodeMacaroon(V1_MACAROON))).toEqual([]);
+  });
+});
+
+describe("macaroonExpiry", () => {
+  it("reads <service>_valid_until as Unix seconds", () => {
+    expect(macaroonExpiry(decodeMacaroon(V2_MACAROON))).toBe(1893456000_000);
+  });
+
+  it("reads ISO dates and the libmacaroons time caveat", () => {
+    const mac = encodeTestMacaroon([
+      "valid_until=2030-01-01T00:00:00Z",
+      "time < 2029-06-01T00:00:00Z",
+    ]);
+    expect(macaroonExpiry(decodeMacaroon(mac))).toBe(
+      Date.parse("2029-06-01T00:00:00Z"),
+    );
+  });
+
+  it("ignores unparseable values and returns null without expiry caveats", () => {
+    expect(
+      macaroonExpiry(decodeMacaroon(encodeTestMacaroon(["valid_until=soon"]))),
+    ).toBeNull();
+    expect(macaroonExpiry(decodeMacaroon(V1_MACAROON))).toBeNull();
+  });
+});
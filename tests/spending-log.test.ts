@@ -1,5 +1,18 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  appendFileSync,
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  statSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { StoreReadError } from "../src/errors.js";
 import { SpendingLog } from "../src/spending-log.js";
+import { JsonlFileSink } from "../src/spending-sink.js";
+import type { PaymentRecord } from "../src/types.js";
 
 describe("SpendingLog", () => {
   beforeEach(() => {
@@ -77,3 +90,109 @@ describe("SpendingLog", () => {
     expect(log.records).toHaveLength(1);
   });
 });
+
+describe("SpendingLog sinks", () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-01-15T12:00:00Z"));
+    dir = mkdtempSync(join(tmpdir(), "l402-spending-"));
+    path = join(dir, "nested", "spending.jsonl");
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("streams each record to every sink as it is recorded", () => {
+    const seen: PaymentRecord[] = [];
+    const log = new SpendingLog({ sinks: [{ write: (r) => seen.push(r) }] });
+
+    const entry = log.record("a.com", "/api", 500, "pre1", true, "mac1");
+    expect(seen).toEqual([entry]);
+  });
+
+  it("keeps the in-memory record when a sink throws", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const log = new SpendingLog({
+      sinks: [
+        {
+          write: () => {
+            throw new Error("disk full");
+          },
+        },
+      ],
+    });
+
+    expect(() => log.record("a.com", "/api", 500, "pre1")).not.toThrow();
+    expect(log.totalSpent()).toBe(500);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining("disk full"));
+    warn.mockRestore();
+  });
+
+  it("appends one JSON line per record, owner-only", () => {
+    const log = new SpendingLog({ sinks: [new JsonlFileSink(path)] });
+    log.record("a.com", "/api", 500, "pre1");
+    log.record("b.com", "/api", 300, "pre2", false);
+
+    const lines = readFileSync(path, "utf-8").trimEnd().split("\n");
+    expect(lines.map((l) => JSON.parse(l).domain)).toEqual(["a.com", "b.com"]);
+    expect(statSync(path).mode & 0o777).toBe(0o600);
+  });
+
+  it("load() rebuilds history and keeps appending to the file", () => {
+    const first = SpendingLog.load(path);
+    first.record("a.com", "/api", 500, "pre1", true, "mac1");
+    first.record("b.com", "/api", 300, "pre2", false);
+
+    // A restart: the history comes back from the file.
+    const second = SpendingLog.load(path);
+    expect(second.records).toEqual(first.records);
+    expect(second.totalSpent()).toBe(500);
+
+    second.record("a.com", "/more", 100, "pre3");
+    expect(SpendingLog.load(path).length).toBe(3);
+  });
+
+  it("load() skips torn or malformed lines", () => {
+    SpendingLog.load(path).record("a.com", "/api", 500, "pre1");
+    appendFileSync(path, '{"domain":"b.com","amount');
+
+    const log = SpendingLog.load(path);
+    expect(log.length).toBe(1);
+  });
+
+  it("passes late receipts to sinks and load() merges them back", () => {
+    const receipts: unknown[] = [];
+    const log = new SpendingLog({
+      sinks: [
+        new JsonlFileSink(path),
+        { write: () => {}, writeReceipt: (_r, receipt) => receipts.push(receipt) },
+      ],
+    });
+    const entry = log.record("a.com", "/api", 500, "pre1");
+    log.record("b.com", "/api", 300, "pre2");
+
+    log.attachReceipt(entry, { reference: "r1" });
+
+    expect(entry.receipt).toEqual({ reference: "r1" });
+    expect(log.records[0].receipt).toEqual({ reference: "r1" });
+    expect(receipts).toEqual([{ reference: "r1" }]);
+    const reloaded = SpendingLog.load(path);
+    expect(reloaded.length).toBe(2);
+    expect(reloaded.records[0].receipt).toEqual({ reference: "r1" });
+    expect(reloaded.records[1].receipt).toBeUndefined();
+  });
+
+  it("load() of a missing file starts empty", () => {
+    expect(SpendingLog.load(path).length).toBe(0);
+  });
+
+  it("load() refuses a file that exists but cannot be read", () => {
+    mkdirSync(path, { recursive: true }); // EISDIR
+    expect(() => SpendingLog.load(path)).toThrow(StoreReadError);
+  });
+});
@@ -1,6 +1,9 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { LndWallet } from "../../src/wallets/lnd.js";
-import { PaymentFailedError } from "../../src/errors.js";
+import {
+  PaymentFailedError,
+  PaymentOutcomeUnknownError,
+} from "../../src/errors.js";
 
 describe("LndWallet", () => {
   const mockFetch = vi.fn();
@@ -85,4 +88,65 @@ describe("LndWallet", () => {
     const body = JSON.parse(init.body);
     expect(body.payment_request).toBe("lnbc1...");
   });
+
+  it("passes a hex preimage through instead of base64-decoding it", async () => {
+    const preimageHex = "ab".repeat(32);
+    mockFetch.mockResolvedValueOnce(
+      new Response(
+        JSON.stringify({
+          result: { status: "SUCCEEDED", payment_preimage: preimageHex },
+        }),
+        { status: 200 },
+      ),
+    );
+
+    const wallet = new LndWallet("https://localhost:8080", "mac");
+    expect(await wallet.payInvoice("lnbc...")).toBe(preimageHex);
+  });
+
+  it("sends nothing when aborted before paying", async () => {
+    const calls = mockFetch.mock.calls.length;
+    const controller = new AbortController();
+    controller.abort(new Error("cancelled"));
+
+    const wallet = new LndWallet("https://localhost:8080", "macaroon-hex");
+    await expect(
+      wallet.payInvoice("lnbc...", { signal: controller.signal }),
+    ).rejects.toThrow("cancelled");
+    expect(mockFetch.mock.calls.length).toBe(calls);
+  });
+
+  it("reports an unknown outcome when aborted while the payment is in flight", async () => {
+    mockFetch.mockImplementationOnce(
+      (_url: string, init: RequestInit) =>
+        new Promise((_resolve, reject) => {
+          init.signal!.addEventListener("abort", () => reject(init.signal!.reason));
+        }),
+    );
+    const controller = new AbortController();
+    const wallet = new LndWallet("https://localhost:8080", "macaroon-hex");
+    const paying = wallet.payInvoice("lnbc...", { signal: controller.signal });
+    controller.abort();
+
+    await expect(paying).rejects.toBeInstanceOf(PaymentOutcomeUnknownError);
+  });
+
+  it("sends through an injected fetch instead of the global one", async () => {
+    const calls = mockFetch.mock.calls.length;
+    const fetch = vi.fn().mockResolvedValue(
+      new Response(
+        JSON.stringify({
+          result: { status: "SUCCEEDED", payment_preimage: "ab".repeat(32) },
+        }),
+        { status: 200 },
+      ),
+    );
+    const wallet = new LndWallet("https://localhost:8080", "macaroon-hex", {
+      fetch,
+    });
+
+    expect(await wallet.payInvoice("lnbc...")).toBe("ab".repeat(32));
+    expect(fetch).toHaveBeenCalledOnce();
+    expect(mockFetch.mock.calls.length).toBe(calls);
+  });
 });
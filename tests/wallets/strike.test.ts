@@ -1,6 +1,9 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { StrikeWallet } from "../../src/wallets/strike.js";
-import { PaymentFailedError } from "../../src/errors.js";
+import {
+  PaymentFailedError,
+  PaymentOutcomeUnknownError,
+} from "../../src/errors.js";
 
 describe("StrikeWallet", () => {
   const mockFetch = vi.fn();
@@ -116,4 +119,41 @@ describe("StrikeWallet", () => {
     const body = JSON.parse(mockFetch.mock.calls[0][1].body);
     expect(body.sourceCurrency).toBe("BTC");
   });
+
+  /** A fetch that never answers, only rejecting when its signal aborts. */
+  function hangUntilAborted(_url: string, init: RequestInit): Promise<Response> {
+    return new Promise((_resolve, reject) => {
+      init.signal!.addEventListener("abort", () => reject(init.signal!.reason));
+    });
+  }
+
+  it("never executes when aborted during the quote", async () => {
+    const calls = mockFetch.mock.calls.length;
+    mockFetch.mockImplementationOnce(hangUntilAborted);
+    const controller = new AbortController();
+    const wallet = new StrikeWallet("test-key");
+    const paying = wallet.payInvoice("lnbc1...", { signal: controller.signal });
+    controller.abort(new Error("cancelled"));
+
+    await expect(paying).rejects.toThrow("cancelled");
+    expect(mockFetch.mock.calls.length).toBe(calls + 1); // the quote only
+  });
+
+  it("reports an unknown outcome when aborted during execution", async () => {
+    mockFetch.mockResolvedValueOnce(
+      new Response(JSON.stringify({ paymentQuoteId: "quote-123" }), {
+        status: 200,
+      }),
+    );
+    mockFetch.mockImplementationOnce(hangUntilAborted);
+    const controller = new AbortController();
+    const wallet = new StrikeWallet("test-key");
+    const paying = wallet.payInvoice("lnbc1...", { signal: controller.signal });
+    await vi.waitFor(() => {
+      expect(mockFetch.mock.calls.at(-1)?.[0]).toContain("/execute");
+    });
+    controller.abort();
+
+    await expect(paying).rejects.toBeInstanceOf(PaymentOutcomeUnknownError);
+  });
 });